@@ -1,48 +1,93 @@
 import React, { useState, useCallback, useRef, useEffect } from 'react';
-import { GameSettings, Screen, PlayerRewards, UnlockedAchievements, GameStats } from './types';
-import { DEFAULT_SETTINGS, INITIAL_RESOURCES } from './constants';
+import { GameSettings, Screen, PlayerRewards, UnlockedAchievements, GameStats, TurnRecord, NLevelChange, SessionLogEntry, PlayerProfile, ProfileData, ParentPin, Stimulus } from './types';
 import { ALL_ACHIEVEMENTS } from './achievements';
 import { checkAchievements } from './services/achievementService';
 import { calculateStars, processRewards } from './services/rewardService';
-import { loadState, saveState, AppState } from './services/storageService';
+import { getNLevelChange } from './services/adaptiveService';
+import { appendToSessionLog, createSessionLogEntry } from './services/sessionLogService';
+import { createProfile, DEFAULT_PROFILE_NAME } from './services/profileService';
+import { saveState, reloadState, toStoredState, createDefaultState, AppState, VersionedAppState, QuarantinedSave, CURRENT_VERSION } from './services/storageService';
+import { acquireGameLock, onStateSavedElsewhere, rebaseState } from './services/syncService';
+import { getPlayableStimuli, MIN_PLAYABLE_STIMULI } from './services/resourceService';
+import { findDeck } from './services/deckService';
+import { createBackup, createDailyBackupIfDue, listBackups, loadBackup, BackupSummary } from './services/backupService';
+import { parseImportFile, buildImportPreview, applyImport, ImportMode, ImportPreview } from './services/importService';
 import StartScreen from './components/StartScreen';
 import SettingsScreen from './components/SettingsScreen';
 import GameScreen from './components/GameScreen';
 import ResourceBrowser from './components/ResourceBrowser';
 import AchievementsScreen from './components/AchievementsScreen';
+import ProgressScreen from './components/ProgressScreen';
+import ProfileScreen from './components/ProfileScreen';
+import ParentGate from './components/ParentGate';
+import ImportPreviewDialog from './components/ImportPreviewDialog';
 import RewardAnimation from './components/RewardAnimation';
+import RecoveryScreen from './components/RecoveryScreen';
+import ErrorBoundary from './components/ErrorBoundary';
 import { playSound, setSoundEnabled } from './services/soundService';
 
-// Centralized initial state logic. It loads from storage or provides a fresh default state.
-const getInitialState = (): AppState => {
-  const loadedState = loadState();
-  if (loadedState) {
-    return loadedState;
-  }
-  // Return a complete default state if nothing is loaded
-  return {
-    settings: DEFAULT_SETTINGS,
-    resources: INITIAL_RESOURCES,
-    playerRewards: { stars: 0, gems: 0, trophies: 0, perfectScores: 0 },
-    unlockedAchievements: {},
-    isSoundOn: true,
-  };
+// Centralized initial state logic. It uses the state loaded from storage or provides a fresh default state.
+const getInitialState = (loadedState: AppState | undefined): AppState => {
+  // Return a complete default state with a single default profile if nothing is loaded
+  return loadedState || createDefaultState();
 };
 
-type RewardType = keyof PlayerRewards;
+const getProfileData = (profiles: PlayerProfile[], profileId: string | null): ProfileData => {
+  const profile = profiles.find(p => p.id === profileId);
+  return profile || createProfile(DEFAULT_PROFILE_NAME, '🙂');
+};
 
-const App: React.FC = () => {
-  // Load initial state only once.
-  const [initialState] = useState(getInitialState);
+type RewardType = keyof PlayerRewards;
 
-  const [screen, setScreen] = useState<Screen>(Screen.START);
-  const [settings, setSettings] = useState<GameSettings>(initialState.settings);
+interface AppProps {
+  loadedState?: AppState; // Loaded from storage before the first render
+  quarantined?: QuarantinedSave | null; // Set when the saved data couldn't be loaded
+}
+
+const App: React.FC<AppProps> = ({ loadedState, quarantined }) => {
+  // Build the initial state only once.
+  const [initialState] = useState(() => getInitialState(loadedState));
+  const [initialProfileData] = useState(() => getProfileData(initialState.profiles, initialState.activeProfileId));
+
+  // Shared devices with several players start on the profile picker.
+  const [screen, setScreen] = useState<Screen>(initialState.profiles.length > 1 ? Screen.PROFILES : Screen.START);
+  const [profiles, setProfiles] = useState<PlayerProfile[]>(initialState.profiles);
+  // The player this tab plays as. Tabs don't follow each other's choice, so a game's rewards always go to the child playing it.
+  const [activeProfileId, setActiveProfileId] = useState<string | null>(initialState.activeProfileId);
+  // The player picked most recently in any tab. This is the one saved, so the app opens with it.
+  const [lastPickedProfileId, setLastPickedProfileId] = useState<string | null>(initialState.activeProfileId);
   const [resources, setResources] = useState(initialState.resources);
-  const [playerRewards, setPlayerRewards] = useState<PlayerRewards>(initialState.playerRewards);
-  const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievements>(initialState.unlockedAchievements);
+  const [decks, setDecks] = useState(initialState.decks);
+  // AI-fetched stimuli waiting for a parent's review. Not saved; they only join `resources` once approved.
+  const [pendingAiItems, setPendingAiItems] = useState<Stimulus[]>([]);
   const [isSoundOn, setIsSoundOn] = useState<boolean>(initialState.isSoundOn);
+  const [parentPin, setParentPin] = useState<ParentPin | null>(initialState.parentPin);
+  // Parent mode is never persisted; it ends when leaving the parent screens or reloading.
+  const [isParentMode, setIsParentMode] = useState(false);
+  const [showParentGate, setShowParentGate] = useState(false);
+  // The data recovery flow, shown instead of the screens when open.
+  const [recovery, setRecovery] = useState<{ save: QuarantinedSave; reason: 'corrupt' | 'crash' } | null>(
+    quarantined ? { save: quarantined, reason: 'corrupt' } : null
+  );
+  // Bumped to remount a screen that crashed.
+  const [screenRetryCount, setScreenRetryCount] = useState(0);
+  // Automatic snapshots, listed in the parent settings.
+  const [backups, setBackups] = useState<BackupSummary[]>([]);
+  // Set when the last save failed, e.g. because storage is full.
+  const [hasStorageError, setHasStorageError] = useState(false);
+  // A validated import waiting for the parent to choose replace or merge.
+  const [pendingImport, setPendingImport] = useState<{ state: AppState; preview: ImportPreview } | null>(null);
+
+  // The active profile's data. It is written back into `profiles` when saving or switching.
+  const [settings, setSettings] = useState<GameSettings>(initialProfileData.settings);
+  const [playerRewards, setPlayerRewards] = useState<PlayerRewards>(initialProfileData.playerRewards);
+  const [unlockedAchievements, setUnlockedAchievements] = useState<UnlockedAchievements>(initialProfileData.unlockedAchievements);
+  const [nLevelHistory, setNLevelHistory] = useState<NLevelChange[]>(initialProfileData.nLevelHistory);
+  const [sessionLog, setSessionLog] = useState<SessionLogEntry[]>(initialProfileData.sessionLog);
+  // The adjustment made after the most recent game, shown on the start screen.
+  const [lastNLevelChange, setLastNLevelChange] = useState<NLevelChange | null>(null);
   
-  const [lastGameHistory, setLastGameHistory] = useState<Array<{ turn: number; score: number; result: 'correct' | 'incorrect' | 'neutral' }>>([]);
+  const [lastGameHistory, setLastGameHistory] = useState<TurnRecord[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   // Achievement State
@@ -53,17 +98,119 @@ const App: React.FC = () => {
   const [animationConfig, setAnimationConfig] = useState<{ startKey: RewardType; endKey: RewardType; key: number } | null>(null);
 
 
-  // Effect to save state to localStorage whenever a key piece of state changes.
-  useEffect(() => {
-    const currentState: AppState = {
-      settings,
+  // Merges the active profile's live data back into the profile list.
+  const getCurrentProfiles = useCallback((): PlayerProfile[] => {
+    return profiles.map(p => p.id === activeProfileId
+      ? { ...p, settings, playerRewards, unlockedAchievements, nLevelHistory, sessionLog }
+      : p
+    );
+  }, [profiles, activeProfileId, settings, playerRewards, unlockedAchievements, nLevelHistory, sessionLog]);
+
+  const getCurrentState = useCallback((): AppState => {
+    const currentProfiles = getCurrentProfiles();
+    return {
+      profiles: currentProfiles,
+      // Falls back to this tab's player if the last picked one was deleted since.
+      activeProfileId: currentProfiles.some(p => p.id === lastPickedProfileId) ? lastPickedProfileId : activeProfileId,
       resources,
-      playerRewards,
-      unlockedAchievements,
+      decks,
       isSoundOn,
+      parentPin,
     };
-    saveState(currentState);
-  }, [settings, resources, playerRewards, unlockedAchievements, isSoundOn]);
+  }, [getCurrentProfiles, lastPickedProfileId, activeProfileId, resources, decks, isSoundOn, parentPin]);
+
+  // Replaces this tab's state with state saved by another tab. This tab keeps its own player while that player exists.
+  const adoptState = useCallback((state: AppState) => {
+    const profileId = state.profiles.some(p => p.id === activeProfileId) ? activeProfileId : state.activeProfileId;
+    const data = getProfileData(state.profiles, profileId);
+    setProfiles(state.profiles);
+    setActiveProfileId(profileId);
+    setLastPickedProfileId(state.activeProfileId);
+    setSettings(data.settings);
+    setPlayerRewards(data.playerRewards);
+    setUnlockedAchievements(data.unlockedAchievements);
+    setNLevelHistory(data.nLevelHistory);
+    setSessionLog(data.sessionLog);
+    setResources(state.resources);
+    setDecks(state.decks);
+    setIsSoundOn(state.isSoundOn);
+    setParentPin(state.parentPin);
+  }, [activeProfileId]);
+
+  // The saved state this tab last wrote or adopted, i.e. what its unsaved changes started from.
+  const syncedStateRef = useRef<AppState>(initialState);
+
+  // Effect to save state whenever a key piece of state changes.
+  // Nothing is saved while recovering, so the unreadable data stays untouched until a choice is made.
+  useEffect(() => {
+    if (recovery) return;
+    const currentState = getCurrentState();
+    saveState(currentState).then(async result => {
+      if (result === 'stale') {
+        // Another tab saved first. Only this tab's own changes are re-applied on top of its data,
+        // and the result is saved in turn.
+        const latest = await reloadState();
+        if (latest) {
+          const base = syncedStateRef.current;
+          syncedStateRef.current = latest;
+          adoptState(rebaseState(base, currentState, latest));
+        }
+        return;
+      }
+      if (result === 'saved') syncedStateRef.current = currentState;
+      setHasStorageError(result === 'failed');
+    });
+  }, [getCurrentState, recovery, adoptState]);
+
+  // Follow saves made in other tabs. During a game or the reward animation they are applied
+  // afterwards, so that the running game isn't regenerated under the player.
+  const isSyncPaused = screen === Screen.GAME || isProcessingRewards || recovery !== null;
+  const hasPendingExternalSave = useRef(false);
+  useEffect(() => {
+    const applyLatest = () => reloadState().then(latest => {
+      if (!latest) return;
+      syncedStateRef.current = latest;
+      adoptState(latest);
+    });
+    if (!isSyncPaused && hasPendingExternalSave.current) {
+      hasPendingExternalSave.current = false;
+      applyLatest();
+    }
+    return onStateSavedElsewhere(() => {
+      if (isSyncPaused) {
+        hasPendingExternalSave.current = true;
+      } else {
+        applyLatest();
+      }
+    });
+  }, [isSyncPaused, adoptState]);
+
+  // Only one tab may run a game at a time; the lock is held while the game screen is shown.
+  const releaseGameLockRef = useRef<(() => void) | null>(null);
+  useEffect(() => {
+    if (screen !== Screen.GAME && releaseGameLockRef.current) {
+      releaseGameLockRef.current();
+      releaseGameLockRef.current = null;
+    }
+  }, [screen]);
+
+  // Take the daily snapshot once per launch, unless the saved data still needs recovering.
+  const hasCheckedDailyBackup = useRef(false);
+  useEffect(() => {
+    if (quarantined || hasCheckedDailyBackup.current) return;
+    hasCheckedDailyBackup.current = true;
+    createDailyBackupIfDue(initialState);
+  }, [quarantined, initialState]);
+
+  // Refresh the backup list whenever the parent settings are shown.
+  useEffect(() => {
+    if (screen === Screen.SETTINGS && isParentMode) listBackups().then(setBackups);
+  }, [screen, isParentMode]);
+
+  const serializeCurrentState = useCallback((): string => {
+    const versionedState: VersionedAppState = { version: CURRENT_VERSION, state: toStoredState(getCurrentState()) };
+    return JSON.stringify(versionedState, null, 2);
+  }, [getCurrentState]);
 
   useEffect(() => {
     setSoundEnabled(isSoundOn);
@@ -79,11 +226,10 @@ const App: React.FC = () => {
   const animationPromiseResolve = useRef<(() => void) | null>(null);
 
   const handleExport = useCallback(() => {
+    if (!isParentMode) return;
     playSound('click');
     try {
-      // We read from localStorage directly to get the versioned wrapper.
-      const rawData = localStorage.getItem('n-back-game-data');
-      const dataToExport = JSON.stringify(JSON.parse(rawData || '{}'), null, 2);
+      const dataToExport = serializeCurrentState();
       const blob = new Blob([dataToExport], { type: 'application/json' });
       const url = URL.createObjectURL(blob);
       const a = document.createElement('a');
@@ -97,9 +243,10 @@ const App: React.FC = () => {
       console.error('Failed to export data:', error);
       alert('导出数据失败。请查看控制台了解详情。');
     }
-  }, []);
+  }, [isParentMode, serializeCurrentState]);
 
   const handleImportClick = () => {
+    if (!isParentMode) return;
     playSound('click');
     fileInputRef.current?.click();
   };
@@ -112,18 +259,12 @@ const App: React.FC = () => {
     reader.onload = (e) => {
       try {
         const text = e.target?.result;
-        if (typeof text !== 'string') throw new Error('Invalid file content');
-        
-        // Save the raw imported data to localStorage. Our robust loadState will handle it on next load.
-        localStorage.setItem('n-back-game-data', text);
-
-        alert('游戏数据导入成功！应用将重新加载以应用更改。');
-        // A full reload is the safest way to ensure all components re-initialize with the new state.
-        window.location.reload(); 
-        
+        if (typeof text !== 'string') throw new Error('无法读取文件内容。');
+        const { version, state } = parseImportFile(text);
+        setPendingImport({ state, preview: buildImportPreview(getCurrentState(), state, version) });
       } catch (error) {
         console.error('Failed to import data:', error);
-        alert('导入数据失败。请检查文件格式。');
+        alert(`导入数据失败。${error instanceof Error ? error.message : ''}`);
       }
     };
     reader.readAsText(file);
@@ -132,6 +273,21 @@ const App: React.FC = () => {
     }
   };
 
+  const handleConfirmImport = async (mode: ImportMode) => {
+    if (!pendingImport || !isParentMode) return;
+    const currentState = getCurrentState();
+    await createBackup(currentState, 'import');
+    const result = await saveState(applyImport(currentState, pendingImport.state, mode), { force: true });
+    setPendingImport(null);
+    if (result !== 'saved') {
+      alert('导入数据失败。无法写入存储空间。');
+      return;
+    }
+    alert('游戏数据导入成功！应用将重新加载以应用更改。');
+    // A full reload is the safest way to ensure all components re-initialize with the new state.
+    window.location.reload();
+  };
+
   const handleAnimationComplete = () => {
     if (animationPromiseResolve.current) {
       animationPromiseResolve.current();
@@ -201,9 +357,17 @@ const App: React.FC = () => {
     setIsProcessingRewards(false);
   }, [playerRewards]);
 
-  const handleGameEnd = (stats: GameStats, history: Array<{ turn: number; score: number; result: 'correct' | 'incorrect' | 'neutral' }>) => {
+  const handleGameEnd = (stats: GameStats, history: TurnRecord[]) => {
     setLastGameHistory(history);
 
+    // Adaptive staircase: adjust nLevel for the next game
+    const nLevelChange = getNLevelChange(stats);
+    if (nLevelChange) {
+      setSettings(s => ({ ...s, nLevel: nLevelChange.to }));
+      setNLevelHistory(prev => [...prev, nLevelChange]);
+    }
+    setLastNLevelChange(nLevelChange);
+
     // Handle achievements
     const justUnlocked = checkAchievements(stats, unlockedAchievements);
     if (justUnlocked.length > 0) {
@@ -220,6 +384,9 @@ const App: React.FC = () => {
     // Handle rewards
     const starsEarned = calculateStars(stats);
     const wasPerfect = stats.incorrectPresses === 0 && stats.score > 0 && stats.gameCompleted;
+
+    const { earned } = processRewards(playerRewards, starsEarned, wasPerfect);
+    setSessionLog(prev => appendToSessionLog(prev, createSessionLogEntry(stats, history, earned)));
     
     if (starsEarned > 0 || wasPerfect) {
         applyRewardsWithAnimation(starsEarned, wasPerfect);
@@ -237,9 +404,27 @@ const App: React.FC = () => {
     }
   };
 
-  const handleClearAllProgress = () => {
+  const handleClearAllProgress = async () => {
+    if (!isParentMode) return;
+    // The snapshot is taken before the state changes below.
+    const backupCreated = createBackup(getCurrentState(), 'clear');
     setPlayerRewards({ stars: 0, gems: 0, trophies: 0, perfectScores: 0 });
     setUnlockedAchievements({});
+    await backupCreated;
+    setBackups(await listBackups());
+  };
+
+  const handleRestoreBackup = async (backupId: string) => {
+    if (!isParentMode) return;
+    try {
+      const backupState = await loadBackup(backupId);
+      // Restoring is undoable too: the current state is snapshotted first.
+      await createBackup(getCurrentState(), 'restore');
+      await handleRestore(backupState);
+    } catch (error) {
+      console.error('Failed to restore backup:', error);
+      alert('恢复备份失败。');
+    }
   };
 
   const handleRewardPodiumClick = useCallback((rewardType: RewardType) => {
@@ -276,15 +461,85 @@ const App: React.FC = () => {
   }, [isProcessingRewards]);
 
 
-  const handleStartGame = () => {
+  const handleSelectProfile = (profileId: string) => {
+    const currentProfiles = getCurrentProfiles();
+    const data = getProfileData(currentProfiles, profileId);
+    setProfiles(currentProfiles);
+    setActiveProfileId(profileId);
+    setLastPickedProfileId(profileId);
+    setSettings(data.settings);
+    setPlayerRewards(data.playerRewards);
+    setUnlockedAchievements(data.unlockedAchievements);
+    setNLevelHistory(data.nLevelHistory);
+    setSessionLog(data.sessionLog);
+    // Per-session display state belongs to the previous player
+    setLastGameHistory([]);
+    setLastNLevelChange(null);
+    setNewlyUnlocked([]);
+    setScreen(Screen.START);
+  };
+
+  const handleCreateProfile = (name: string, avatar: string) => {
+    setProfiles(prev => [...prev, createProfile(name, avatar)]);
+  };
+
+  const handleDeleteProfile = async (profileId: string) => {
+    if (!isParentMode || profileId === activeProfileId) return;
+    // The snapshot is taken before the profile is removed, so the deletion can be undone.
+    const backupCreated = createBackup(getCurrentState(), 'deleteProfile');
+    setProfiles(prev => prev.filter(p => p.id !== profileId));
+    await backupCreated;
+    setBackups(await listBackups());
+  };
+
+  const handleStartGame = async () => {
+    const deck = findDeck(decks, settings.deckId);
+    if (getPlayableStimuli(resources, settings.stimulusType, deck).length < MIN_PLAYABLE_STIMULI) {
+      alert(deck
+        ? `卡组「${deck.name}」中可用的资源太少。请在资源库中为它添加或启用更多资源，或在设置中换一个卡组。`
+        : '当前题目类型可用的资源太少。请在资源库中启用更多资源，或在设置中换一种题目类型。');
+      return;
+    }
+    const releaseGameLock = await acquireGameLock();
+    if (!releaseGameLock) {
+      alert('另一个标签页中正在进行游戏。请先完成那局游戏，或关闭那个标签页。');
+      return;
+    }
+    releaseGameLockRef.current = releaseGameLock;
     setLastGameHistory([]);
     setScreen(Screen.GAME);
   };
   
   const handleNavigate = (screen: Screen) => {
+    // Leaving the parent screens always locks parent mode again.
+    if (screen === Screen.START) {
+      setIsParentMode(false);
+    }
     setScreen(screen);
   }
 
+  const handleOpenRecovery = () => {
+    setRecovery({
+      save: { key: null, raw: serializeCurrentState(), createdAt: new Date().toISOString() },
+      reason: 'crash',
+    });
+  };
+
+  const handleRestore = async (state: AppState) => {
+    const result = await saveState(state, { force: true });
+    if (result !== 'saved') {
+      alert('无法保存数据。请先下载原始数据，然后检查浏览器的存储空间。');
+      return;
+    }
+    // A full reload is the safest way to ensure all components re-initialize with the new state.
+    window.location.reload();
+  };
+
+  const handleParentUnlock = () => {
+    setIsParentMode(true);
+    setShowParentGate(false);
+  };
+
   const renderScreen = () => {
     switch(screen) {
       case Screen.START:
@@ -293,9 +548,13 @@ const App: React.FC = () => {
             onNavigate={handleNavigate}
             onStartGame={handleStartGame}
             settings={settings}
+            activeDeck={findDeck(decks, settings.deckId) || null}
             lastGameHistory={lastGameHistory}
+            lastNLevelChange={lastNLevelChange}
             isSoundOn={isSoundOn}
             setIsSoundOn={setIsSoundOn}
+            gamesPlayedCount={sessionLog.length}
+            activeProfile={profiles.find(p => p.id === activeProfileId) || null}
             unlockedAchievementsCount={Object.keys(unlockedAchievements).length}
             totalAchievementsCount={ALL_ACHIEVEMENTS.length}
             newlyUnlocked={newlyUnlocked}
@@ -311,10 +570,16 @@ const App: React.FC = () => {
           <SettingsScreen 
             settings={settings}
             setSettings={setSettings}
+            decks={decks}
             onBack={() => handleNavigate(Screen.START)}
             onClearAllProgress={handleClearAllProgress}
             onExport={handleExport}
             onImportClick={handleImportClick}
+            backups={backups}
+            onRestoreBackup={handleRestoreBackup}
+            isParentMode={isParentMode}
+            onRequestParentMode={() => setShowParentGate(true)}
+            onLockParentMode={() => setIsParentMode(false)}
           />
         );
       case Screen.GAME:
@@ -322,6 +587,7 @@ const App: React.FC = () => {
           <GameScreen
             settings={settings}
             resources={resources}
+            deck={findDeck(decks, settings.deckId)}
             playerRewards={playerRewards}
             onEndGame={handleGameEnd}
             onExit={() => handleNavigate(Screen.START)}
@@ -332,8 +598,14 @@ const App: React.FC = () => {
             <ResourceBrowser 
                 resources={resources}
                 setResources={setResources}
+                decks={decks}
+                setDecks={setDecks}
+                pendingAiItems={pendingAiItems}
+                setPendingAiItems={setPendingAiItems}
                 onBack={() => handleNavigate(Screen.START)}
                 onAIFetch={handleAIFetch}
+                isParentMode={isParentMode}
+                onRequestParentMode={() => setShowParentGate(true)}
             />
         );
       case Screen.ACHIEVEMENTS:
@@ -343,6 +615,26 @@ const App: React.FC = () => {
                 onBack={() => handleNavigate(Screen.START)}
             />
         );
+      case Screen.PROFILES:
+        return (
+            <ProfileScreen
+                profiles={getCurrentProfiles()}
+                activeProfileId={activeProfileId}
+                onSelect={handleSelectProfile}
+                onCreate={handleCreateProfile}
+                onDelete={handleDeleteProfile}
+                onBack={() => handleNavigate(Screen.START)}
+                isParentMode={isParentMode}
+                onRequestParentMode={() => setShowParentGate(true)}
+            />
+        );
+      case Screen.PROGRESS:
+        return (
+            <ProgressScreen
+                sessionLog={sessionLog}
+                onBack={() => handleNavigate(Screen.START)}
+            />
+        );
       default:
         return null;
     }
@@ -358,6 +650,15 @@ const App: React.FC = () => {
             accept="application/json"
         />
         <main className="container mx-auto h-full p-4 relative">
+            {hasStorageError && (
+              <div className="absolute top-2 left-1/2 -translate-x-1/2 z-50 w-11/12 max-w-xl flex items-center gap-3 p-3 bg-red-100 border-2 border-red-400 text-red-700 rounded-lg shadow-lg animate-fade-in">
+                <span className="text-2xl">⚠️</span>
+                <p className="flex-grow text-sm font-semibold">无法保存游戏进度，存储空间可能已满。请让家长导出数据或删除一些资源。</p>
+                <button onClick={() => setHasStorageError(false)} className="text-sm font-bold px-3 py-1 bg-red-200 rounded hover:bg-red-300 transition">
+                  知道了
+                </button>
+              </div>
+            )}
             {animationConfig && (
               <RewardAnimation
                 key={animationConfig.key}
@@ -366,7 +667,38 @@ const App: React.FC = () => {
                 onComplete={handleAnimationComplete}
               />
             )}
-            {renderScreen()}
+            {showParentGate && (
+              <ParentGate
+                parentPin={parentPin}
+                onUnlock={handleParentUnlock}
+                onSetPin={setParentPin}
+                onCancel={() => setShowParentGate(false)}
+              />
+            )}
+            {pendingImport && (
+              <ImportPreviewDialog
+                preview={pendingImport.preview}
+                onConfirm={handleConfirmImport}
+                onCancel={() => setPendingImport(null)}
+              />
+            )}
+            {recovery ? (
+              <RecoveryScreen
+                save={recovery.save}
+                reason={recovery.reason}
+                onRestore={handleRestore}
+                onCancel={recovery.reason === 'crash' ? () => setRecovery(null) : undefined}
+              />
+            ) : (
+              <ErrorBoundary
+                key={`${screen}-${screenRetryCount}`}
+                onRetry={() => setScreenRetryCount(count => count + 1)}
+                onGoHome={() => handleNavigate(Screen.START)}
+                onOpenRecovery={handleOpenRecovery}
+              >
+                {renderScreen()}
+              </ErrorBoundary>
+            )}
         </main>
     </div>
   );
@@ -1,4 +1,4 @@
-import { Achievement, GameStats } from './types';
+import { Achievement, GameMode, GameStats } from './types';
 
 export const ALL_ACHIEVEMENTS: Achievement[] = [
   {
@@ -49,6 +49,31 @@ export const ALL_ACHIEVEMENTS: Achievement[] = [
     type: 'levelComplete',
     goal: (stats) => stats.settings.nLevel === 3 && stats.score >= 800 && stats.gameCompleted,
   },
+  {
+    id: 'dual_first',
+    name: '一心二用',
+    description: '完成一场双重 N-Back 游戏。',
+    emoji: '🎯',
+    type: 'generic',
+    goal: (stats) => stats.settings.mode === GameMode.DUAL && stats.gameCompleted,
+  },
+  {
+    id: 'position_streak_10',
+    name: '方位大师',
+    description: '在双重模式中连续正确判断位置10次。',
+    emoji: '🧭',
+    type: 'streak',
+    goal: 10,
+    stream: 'position',
+  },
+  {
+    id: 'sharp_eye',
+    name: '火眼金睛',
+    description: '完成一场 d′ 达到 3 或以上的游戏（几乎不漏报也不误报）。',
+    emoji: '🦅',
+    type: 'generic',
+    goal: (stats) => stats.gameCompleted && stats.signalDetection.dPrime >= 3,
+  },
   {
     id: 'perfect_precision',
     name: '零失误',
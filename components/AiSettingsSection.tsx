@@ -0,0 +1,118 @@
+import React, { useState } from 'react';
+import { AiConfig, AiProviderId, loadAiConfig, saveAiConfig } from '../services/aiService';
+
+const providerLabels: Record<AiProviderId, string> = {
+  offline: '离线资源库 (无需网络)',
+  gemini: 'Google Gemini',
+  openai: 'OpenAI 兼容接口 (可用于本地模型)',
+};
+
+const providerHints: Record<AiProviderId, string> = {
+  offline: '从应用自带的资源目录中添加资源，不会联网，也不需要密钥。',
+  gemini: '需要 Gemini API 密钥。密钥只保存在这台设备上，不会包含在导出文件或备份中。',
+  openai: '支持 OpenAI 以及 Ollama、LM Studio 等提供相同接口的服务。密钥只保存在这台设备上。',
+};
+
+const inputClasses = "w-full p-2 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition";
+
+// AI provider settings for the resource browser. Only shown in parent mode.
+const AiSettingsSection: React.FC = () => {
+  const [config, setConfig] = useState<AiConfig>(loadAiConfig);
+
+  // Saved on every change, like the game settings.
+  const updateConfig = (update: (c: AiConfig) => AiConfig) => {
+    setConfig(prev => {
+      const next = update(prev);
+      saveAiConfig(next);
+      return next;
+    });
+  };
+
+  return (
+    <div className="my-6 py-6 border-t-2 border-dashed border-gray-300">
+      <h3 className="text-lg font-semibold text-gray-700 mb-2 text-center">AI 资源</h3>
+      <div className="space-y-3">
+        <div>
+          <label htmlFor="ai-provider" className="block text-sm font-semibold text-gray-700 mb-1">资源来源</label>
+          <select
+            id="ai-provider"
+            value={config.provider}
+            onChange={(e) => updateConfig(c => ({ ...c, provider: e.target.value as AiProviderId }))}
+            className={inputClasses}
+          >
+            {(Object.keys(providerLabels) as AiProviderId[]).map(provider => (
+              <option key={provider} value={provider}>{providerLabels[provider]}</option>
+            ))}
+          </select>
+          <p className="text-xs text-gray-500 mt-1">{providerHints[config.provider]}</p>
+        </div>
+
+        {config.provider === 'gemini' && (
+          <>
+            <div>
+              <label htmlFor="gemini-key" className="block text-sm font-semibold text-gray-700 mb-1">API 密钥</label>
+              <input
+                id="gemini-key"
+                type="password"
+                autoComplete="off"
+                value={config.gemini.apiKey}
+                onChange={(e) => updateConfig(c => ({ ...c, gemini: { ...c.gemini, apiKey: e.target.value } }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label htmlFor="gemini-model" className="block text-sm font-semibold text-gray-700 mb-1">模型</label>
+              <input
+                id="gemini-model"
+                type="text"
+                value={config.gemini.model}
+                onChange={(e) => updateConfig(c => ({ ...c, gemini: { ...c.gemini, model: e.target.value } }))}
+                className={inputClasses}
+              />
+            </div>
+          </>
+        )}
+
+        {config.provider === 'openai' && (
+          <>
+            <div>
+              <label htmlFor="openai-base-url" className="block text-sm font-semibold text-gray-700 mb-1">接口地址</label>
+              <input
+                id="openai-base-url"
+                type="url"
+                placeholder="例如 http://localhost:11434/v1"
+                value={config.openai.baseUrl}
+                onChange={(e) => updateConfig(c => ({ ...c, openai: { ...c.openai, baseUrl: e.target.value } }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label htmlFor="openai-key" className="block text-sm font-semibold text-gray-700 mb-1">API 密钥</label>
+              <input
+                id="openai-key"
+                type="password"
+                autoComplete="off"
+                placeholder="本地模型通常不需要"
+                value={config.openai.apiKey}
+                onChange={(e) => updateConfig(c => ({ ...c, openai: { ...c.openai, apiKey: e.target.value } }))}
+                className={inputClasses}
+              />
+            </div>
+            <div>
+              <label htmlFor="openai-model" className="block text-sm font-semibold text-gray-700 mb-1">模型</label>
+              <input
+                id="openai-model"
+                type="text"
+                value={config.openai.model}
+                onChange={(e) => updateConfig(c => ({ ...c, openai: { ...c.openai, model: e.target.value } }))}
+                className={inputClasses}
+              />
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default AiSettingsSection;
@@ -0,0 +1,61 @@
+import React from 'react';
+
+interface ErrorBoundaryProps {
+  children: React.ReactNode;
+  onRetry: () => void; // Expected to remount the boundary, e.g. by changing its key
+  onGoHome: () => void;
+  onOpenRecovery: () => void;
+}
+
+interface ErrorBoundaryState {
+  error: Error | null;
+}
+
+// Keeps a crashing screen from blanking the whole app and links to the data recovery flow.
+class ErrorBoundary extends React.Component<ErrorBoundaryProps, ErrorBoundaryState> {
+  declare props: Readonly<ErrorBoundaryProps>;
+  state: ErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): ErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: React.ErrorInfo) {
+    console.error('Screen crashed:', error, info.componentStack);
+  }
+
+  render() {
+    if (!this.state.error) {
+      return this.props.children;
+    }
+    return (
+      <div className="flex flex-col items-center justify-center h-full text-center p-4 animate-fade-in">
+        <div className="text-6xl mb-4">😵</div>
+        <h2 className="font-display text-3xl text-purple-700 mb-2">哎呀，出错了</h2>
+        <p className="text-gray-600 mb-6">这个页面遇到了问题。你的进度已经保存。</p>
+        <div className="flex flex-col gap-3 w-full max-w-xs">
+          <button
+            onClick={this.props.onRetry}
+            className="w-full py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95"
+          >
+            重试
+          </button>
+          <button
+            onClick={this.props.onGoHome}
+            className="w-full py-2 bg-blue-500 text-white font-bold rounded-lg shadow-lg hover:bg-blue-600 transition active:scale-95"
+          >
+            返回首页
+          </button>
+          <button
+            onClick={this.props.onOpenRecovery}
+            className="w-full py-2 bg-gray-300 text-gray-700 font-bold rounded-lg shadow hover:bg-gray-400 transition active:scale-95"
+          >
+            数据恢复
+          </button>
+        </div>
+      </div>
+    );
+  }
+}
+
+export default ErrorBoundary;
@@ -1,17 +1,28 @@
 import React, { useState, useEffect, useMemo, useCallback } from 'react';
-import { GameSettings, Stimulus, StimulusType, GameStats, PlayerRewards } from '../types';
+import { Deck, GameSettings, Stimulus, StimulusType, GameStats, PlayerRewards, GameMode, MatchStream, StreamStats, TurnRecord, SignalDetectionStats, ReactionTimeStats } from '../types';
+import { POSITION_GRID_SIZE } from '../constants';
 import { useGameLogic } from '../hooks/useGameLogic';
 import { calculateStars, processRewards } from '../services/rewardService';
 import { useAnimatedCounter } from '../hooks/useAnimatedCounter';
 import { CheckIcon, XIcon, PauseIcon, HomeIcon, PlayIcon } from './icons';
 import { playSound } from '../services/soundService';
+import { getPlayableStimuli } from '../services/resourceService';
 
 interface GameEndSummaryProps {
     score: number;
     rewardsEarned: PlayerRewards;
+    streams?: Partial<Record<MatchStream, StreamStats>>;
+    lureFalseAlarms?: number; // Only shown when the game had lure turns
+    signalDetection: SignalDetectionStats;
+    reactionTimes: ReactionTimeStats;
     onContinue: () => void;
 }
 
+const streamNameMap: Record<MatchStream, string> = {
+    position: '位置',
+    identity: '图案',
+};
+
 const RewardCard: React.FC<{ icon: string, count: number, name: string, delay: number }> = ({ icon, count, name, delay }) => {
     // FIX: The hook now correctly animates from 0 on mount for this component.
     const animatedCount = useAnimatedCounter(count, 1000);
@@ -33,7 +44,48 @@ const RewardCard: React.FC<{ icon: string, count: number, name: string, delay: n
     );
 };
 
-const GameEndSummary: React.FC<GameEndSummaryProps> = ({ score, rewardsEarned, onContinue }) => {
+// Turns criterion c and d′ into a short hint for parents and kids.
+const getResponseStyleHint = ({ dPrime, criterion, hits, misses, falseAlarms }: SignalDetectionStats): string => {
+    if (hits + misses + falseAlarms === 0) return '';
+    if (criterion < -0.5) return '按“匹配”有点太快了，可能是在猜。确定了再按吧！';
+    if (criterion > 0.5) return '有点太谨慎了，错过了一些匹配。大胆一点！';
+    if (dPrime < 1) return '匹配和不匹配还不太分得清，多练习会越来越好！';
+    return '判断很稳定，继续保持！';
+};
+
+const SignalDetectionPanel: React.FC<{ stats: SignalDetectionStats; reactionTimes: ReactionTimeStats }> = ({ stats, reactionTimes }) => {
+    const items = [
+        { label: '命中', value: stats.hits },
+        { label: '漏报', value: stats.misses },
+        { label: '误报', value: stats.falseAlarms },
+        { label: '正确拒绝', value: stats.correctRejections },
+    ];
+    const hint = getResponseStyleHint(stats);
+
+    return (
+        <div className="bg-white/80 text-gray-800 px-4 py-3 rounded-lg shadow mb-6 max-w-md mx-auto">
+            <div className="grid grid-cols-4 gap-2 text-center">
+                {items.map(item => (
+                    <div key={item.label}>
+                        <p className="text-xl font-bold">{item.value}</p>
+                        <p className="text-xs text-gray-600">{item.label}</p>
+                    </div>
+                ))}
+            </div>
+            <p className="text-sm mt-2">
+                命中率 {Math.round(stats.hitRate * 100)}% · 误报率 {Math.round(stats.falseAlarmRate * 100)}% · d′ {stats.dPrime.toFixed(2)} · c {stats.criterion.toFixed(2)}
+            </p>
+            {reactionTimes.medianHitRT !== null && (
+                <p className="text-sm">
+                    命中反应时: 平均 {reactionTimes.meanHitRT}ms · 中位数 {reactionTimes.medianHitRT}ms
+                </p>
+            )}
+            {hint && <p className="text-sm font-semibold text-purple-700 mt-1">{hint}</p>}
+        </div>
+    );
+};
+
+const GameEndSummary: React.FC<GameEndSummaryProps> = ({ score, rewardsEarned, streams, lureFalseAlarms, signalDetection, reactionTimes, onContinue }) => {
     const [sparkles, setSparkles] = useState<Array<{ id: number, top: string, left: string, delay: string }>>([]);
 
     useEffect(() => {
@@ -54,6 +106,28 @@ const GameEndSummary: React.FC<GameEndSummaryProps> = ({ score, rewardsEarned, o
                 <h2 className="font-display text-5xl mb-2" style={{ textShadow: '2px 2px 4px rgba(0,0,0,0.5)' }}>回合结束！</h2>
                 <p className="text-2xl mb-6 font-semibold" style={{ textShadow: '1px 1px 3px rgba(0,0,0,0.5)' }}>最终得分: {score}</p>
 
+                <SignalDetectionPanel stats={signalDetection} reactionTimes={reactionTimes} />
+
+                {lureFalseAlarms !== undefined && (
+                  <p className="text-lg mb-4 font-semibold" style={{ textShadow: '1px 1px 3px rgba(0,0,0,0.5)' }}>
+                    诱饵误判: {lureFalseAlarms} 次
+                  </p>
+                )}
+
+                {streams?.position && (
+                  <div className="flex justify-center gap-4 mb-6">
+                      {(Object.keys(streams) as MatchStream[]).map(stream => (
+                          <div key={stream} className="bg-white/80 text-gray-800 px-4 py-2 rounded-lg shadow">
+                              <p className="font-bold">{streamNameMap[stream]}</p>
+                              <p className="text-sm">最高连击: {streams[stream]!.maxStreak} · 失误: {streams[stream]!.incorrectPresses}</p>
+                              {lureFalseAlarms !== undefined && (
+                                  <p className="text-sm">诱饵误判: {streams[stream]!.lureFalseAlarms}</p>
+                              )}
+                          </div>
+                      ))}
+                  </div>
+                )}
+
                 <div className="flex justify-center mb-8">
                   <div className="flex flex-row flex-wrap justify-center gap-4">
                       <RewardCard icon="✨" count={rewardsEarned.stars} name="星星" delay={100} />
@@ -78,8 +152,9 @@ const GameEndSummary: React.FC<GameEndSummaryProps> = ({ score, rewardsEarned, o
 interface GameScreenProps {
   settings: GameSettings;
   resources: Stimulus[];
+  deck?: Deck; // The selected deck, which replaces settings.stimulusType
   playerRewards: PlayerRewards;
-  onEndGame: (stats: GameStats, history: Array<{ turn: number; score: number; result: 'correct' | 'incorrect' | 'neutral' }>) => void;
+  onEndGame: (stats: GameStats, history: TurnRecord[]) => void;
   onExit: () => void;
 }
 
@@ -103,6 +178,8 @@ const StimulusDisplay: React.FC<{ stimulus: Stimulus | null, turn: number }> = R
               case StimulusType.TEXT:
               case StimulusType.LETTER:
                   return <div className={`${baseClasses} bg-white text-8xl sm:text-9xl font-bold text-gray-800`}>{stimulus.value}</div>;
+              case StimulusType.IMAGE:
+                  return <img src={stimulus.value} alt={stimulus.name || ''} className={`${baseClasses} object-cover bg-white`} draggable={false} />;
               default:
                   return <div className={baseClasses}></div>;
           }
@@ -130,13 +207,42 @@ const MiniStimulusDisplay: React.FC<{ stimulus: Stimulus | null; size: number; }
         case StimulusType.TEXT:
         case StimulusType.LETTER:
             return <div className={`${baseClasses} bg-white font-bold text-gray-800`} style={dynamicStyle}>{stimulus.value}</div>;
+        case StimulusType.IMAGE:
+            return <img src={stimulus.value} alt={stimulus.name || ''} className={`${baseClasses} object-cover bg-white`} draggable={false} />;
         default:
             return <div className={baseClasses}></div>;
     }
 };
 
+const PositionGrid: React.FC<{ stimulus: Stimulus | null; position: number | null; turn: number; }> = ({ stimulus, position, turn }) => {
+    const cellSize = 80;
+    return (
+        <div className="grid gap-2" style={{ gridTemplateColumns: `repeat(${POSITION_GRID_SIZE}, ${cellSize}px)` }}>
+            {Array.from({ length: POSITION_GRID_SIZE * POSITION_GRID_SIZE }).map((_, index) => (
+                <div key={index} className="bg-gray-100 border-2 border-gray-200 rounded-lg" style={{ width: `${cellSize}px`, height: `${cellSize}px` }}>
+                    {index === position && stimulus && (
+                        <div key={turn} className="w-full h-full animate-bounce-in">
+                            <MiniStimulusDisplay stimulus={stimulus} size={cellSize} />
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const MiniPositionGrid: React.FC<{ position: number; size: number; }> = ({ position, size }) => {
+    const cellSize = Math.floor(size / POSITION_GRID_SIZE) - 2;
+    return (
+        <div className="grid gap-0.5 justify-center" style={{ gridTemplateColumns: `repeat(${POSITION_GRID_SIZE}, ${cellSize}px)` }}>
+            {Array.from({ length: POSITION_GRID_SIZE * POSITION_GRID_SIZE }).map((_, index) => (
+                <div key={index} className={`rounded-sm ${index === position ? 'bg-red-400' : 'bg-gray-200'}`} style={{ width: `${cellSize}px`, height: `${cellSize}px` }}></div>
+            ))}
+        </div>
+    );
+};
 
-const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewards, onEndGame, onExit }) => {
+const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, deck, playerRewards, onEndGame, onExit }) => {
   const [feedback, setFeedback] = useState<'correct' | 'incorrect' | null>(null);
   const [gameState, setGameState] = useState<'ready' | 'playing' | 'over' | 'paused'>('ready');
   const [countdown, setCountdown] = useState(3);
@@ -144,12 +250,12 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
   const [showComboEffect, setShowComboEffect] = useState(false);
   const [gameEndSummaryData, setGameEndSummaryData] = useState<PlayerRewards | null>(null);
 
-  const availableStimuli = useMemo(() => {
-    if (settings.stimulusType === StimulusType.RANDOM) {
-      return resources;
-    }
-    return resources.filter(r => r.type === settings.stimulusType);
-  }, [settings.stimulusType, resources]);
+  const availableStimuli = useMemo(
+    () => getPlayableStimuli(resources, settings.stimulusType, deck),
+    [settings.stimulusType, resources, deck]
+  );
+
+  const isDual = settings.mode === GameMode.DUAL;
 
   const onResponse = useCallback((correct: boolean, comboCount: number) => {
     if (correct) {
@@ -170,19 +276,23 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
   
   const {
     currentStimulus,
+    currentPosition,
     score,
     turn,
     isGameOver,
     handleMatch,
     progress,
     history,
+    positionHistory,
     showReviewHistory,
     scoreHistory,
     gameStats,
     currentStreak,
+    respondedStreams,
   } = useGameLogic({ settings, stimuli: availableStimuli, onResponse, isPaused: gameState !== 'playing' });
 
   const reviewStimuli = history.slice(-settings.nLevel);
+  const reviewPositions = positionHistory.slice(-settings.nLevel);
   
   const calculateReviewItemSize = (nLevel: number) => {
     const maxWidth = 400;
@@ -247,9 +357,9 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
     onEndGame(gameStats, scoreHistory);
   }
 
-  const handleUserMatch = (match: boolean) => {
+  const handleUserMatch = (match: boolean, stream: MatchStream = 'identity') => {
     if (gameState !== 'playing') return;
-    handleMatch(match);
+    handleMatch(match, stream);
   }
 
   const getTutorialText = (nLevel: number) => {
@@ -261,6 +371,13 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
         5: '前第 5 个',
     };
     const nText = nLevelMap[nLevel] || `前第 ${nLevel} 个`;
+    if (isDual) {
+        return (
+            <p className="text-lg md:text-xl text-center text-gray-600 mt-6 max-w-md px-4">
+                任务：如果当前方块的【位置】与 <strong className="text-purple-600 font-bold">{nText}</strong> 相同，请按“位置匹配”；如果【图案】相同，请按“图案匹配”。两者可以同时匹配。
+            </p>
+        );
+    }
     return (
         <p className="text-lg md:text-xl text-center text-gray-600 mt-6 max-w-md px-4">
             任务：如果当前项目与 <strong className="text-purple-600 font-bold">{nText}</strong> 出现的项目【相同】，请按“匹配”。
@@ -300,6 +417,10 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
              <GameEndSummary 
                 score={score}
                 rewardsEarned={gameEndSummaryData}
+                streams={gameStats.streams}
+                lureFalseAlarms={settings.lureRate > 0 ? gameStats.lureFalseAlarms : undefined}
+                signalDetection={gameStats.signalDetection}
+                reactionTimes={gameStats.reactionTimes}
                 onContinue={handleContinue}
              />
         )}
@@ -334,7 +455,9 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
         {/* Stimulus Container */}
         <div className="relative flex items-center justify-center h-64 w-full">
           <div className={`transition-transform duration-500 ${gameState === 'over' ? 'scale-0 opacity-0' : 'scale-100 opacity-100'}`}>
-            <StimulusDisplay stimulus={currentStimulus} turn={turn} />
+            {isDual
+              ? <PositionGrid stimulus={currentStimulus} position={currentPosition} turn={turn} />
+              : <StimulusDisplay stimulus={currentStimulus} turn={turn} />}
           </div>
           
           {showReviewHistory && (
@@ -343,12 +466,16 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
                       <p className="text-center text-lg font-bold mb-4">回顾 (最近 {settings.nLevel} 个)</p>
                       <div className="flex justify-center items-center gap-4">
                           {reviewStimuli.map((stim, index) => (
-                             <div 
-                               key={index} 
-                               style={{ width: `${reviewItemSize}px`, height: `${reviewItemSize}px` }}
-                               className="border-2 border-gray-300 rounded-lg overflow-hidden"
-                             >
-                                 <MiniStimulusDisplay stimulus={stim} size={reviewItemSize} />
+                             <div key={index} className="flex flex-col items-center gap-2">
+                               <div 
+                                 style={{ width: `${reviewItemSize}px`, height: `${reviewItemSize}px` }}
+                                 className="border-2 border-gray-300 rounded-lg overflow-hidden"
+                               >
+                                   <MiniStimulusDisplay stimulus={stim} size={reviewItemSize} />
+                               </div>
+                               {isDual && reviewPositions[index] !== undefined && (
+                                   <MiniPositionGrid position={reviewPositions[index]} size={reviewItemSize} />
+                               )}
                              </div>
                           ))}
                       </div>
@@ -368,20 +495,41 @@ const GameScreen: React.FC<GameScreenProps> = ({ settings, resources, playerRewa
 
 
       <div className={`grid grid-cols-2 gap-4 w-full max-w-sm mt-auto ${gameState !== 'playing' || showReviewHistory ? 'pointer-events-none opacity-50' : ''}`}>
-        <button
-          onClick={() => handleUserMatch(true)}
-          disabled={turn <= settings.nLevel}
-          className="py-4 px-6 bg-green-500 text-white font-bold text-2xl rounded-lg shadow-lg hover:bg-green-600 transition transform hover:scale-105 active:scale-100 disabled:bg-gray-400 disabled:cursor-not-allowed"
-        >
-          匹配
-        </button>
-        <button
-          onClick={() => handleUserMatch(false)}
-          disabled={turn <= settings.nLevel}
-          className="py-4 px-6 bg-red-500 text-white font-bold text-2xl rounded-lg shadow-lg hover:bg-red-600 transition transform hover:scale-105 active:scale-100 disabled:bg-gray-400 disabled:cursor-not-allowed"
-        >
-          不匹配
-        </button>
+        {isDual ? (
+          <>
+            <button
+              onClick={() => handleUserMatch(true, 'position')}
+              disabled={turn <= settings.nLevel || respondedStreams.position}
+              className="py-4 px-6 bg-blue-500 text-white font-bold text-2xl rounded-lg shadow-lg hover:bg-blue-600 transition transform hover:scale-105 active:scale-100 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              位置匹配
+            </button>
+            <button
+              onClick={() => handleUserMatch(true, 'identity')}
+              disabled={turn <= settings.nLevel || respondedStreams.identity}
+              className="py-4 px-6 bg-purple-500 text-white font-bold text-2xl rounded-lg shadow-lg hover:bg-purple-600 transition transform hover:scale-105 active:scale-100 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              图案匹配
+            </button>
+          </>
+        ) : (
+          <>
+            <button
+              onClick={() => handleUserMatch(true)}
+              disabled={turn <= settings.nLevel}
+              className="py-4 px-6 bg-green-500 text-white font-bold text-2xl rounded-lg shadow-lg hover:bg-green-600 transition transform hover:scale-105 active:scale-100 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              匹配
+            </button>
+            <button
+              onClick={() => handleUserMatch(false)}
+              disabled={turn <= settings.nLevel}
+              className="py-4 px-6 bg-red-500 text-white font-bold text-2xl rounded-lg shadow-lg hover:bg-red-600 transition transform hover:scale-105 active:scale-100 disabled:bg-gray-400 disabled:cursor-not-allowed"
+            >
+              不匹配
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
@@ -0,0 +1,117 @@
+import React from 'react';
+import { PlayerRewards } from '../types';
+import { ImportMode, ImportPreview } from '../services/importService';
+import { playSound } from '../services/soundService';
+
+interface ImportPreviewDialogProps {
+  preview: ImportPreview;
+  onConfirm: (mode: ImportMode) => void;
+  onCancel: () => void;
+}
+
+const REWARD_LABELS: Record<keyof PlayerRewards, string> = {
+  stars: '⭐',
+  gems: '💎',
+  trophies: '🏆',
+  perfectScores: '💯',
+};
+
+const RewardsLine: React.FC<{ rewards: PlayerRewards }> = ({ rewards }) => (
+  <span className="space-x-2">
+    {(Object.keys(REWARD_LABELS) as (keyof PlayerRewards)[]).map(key => (
+      <span key={key}>{REWARD_LABELS[key]}{rewards[key]}</span>
+    ))}
+  </span>
+);
+
+const ImportPreviewDialog: React.FC<ImportPreviewDialogProps> = ({ preview, onConfirm, onCancel }) => {
+  const handleConfirm = (mode: ImportMode) => {
+    playSound('click');
+    onConfirm(mode);
+  };
+
+  const handleCancel = () => {
+    playSound('click');
+    onCancel();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-40 animate-fade-in p-4">
+      <div className="w-full max-w-lg max-h-full overflow-y-auto bg-white rounded-2xl shadow-2xl p-6">
+        <h3 className="font-display text-2xl text-purple-700 mb-1 text-center">导入预览</h3>
+        <p className="text-xs text-gray-500 mb-4 text-center">文件版本: {preview.version}</p>
+
+        <div className="space-y-3">
+          {preview.profiles.map((profile, index) => (
+            <div key={index} className="p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm">
+              <div className="flex items-center justify-between mb-2">
+                <span className="font-bold text-gray-800">{profile.avatar} {profile.name}</span>
+                <span className={`text-xs px-2 py-0.5 rounded-full ${profile.matchedName ? 'bg-blue-100 text-blue-700' : 'bg-green-100 text-green-700'}`}>
+                  {profile.matchedName ? `对应「${profile.matchedName}」` : '新玩家'}
+                </span>
+              </div>
+              <div className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-gray-600">
+                {profile.currentRewards && (
+                  <>
+                    <span>当前奖励</span>
+                    <RewardsLine rewards={profile.currentRewards} />
+                  </>
+                )}
+                <span>导入奖励</span>
+                <RewardsLine rewards={profile.importedRewards} />
+                <span>成就</span>
+                <span>
+                  当前 {profile.currentAchievementCount} · 导入 {profile.importedAchievementCount} · 合并后 {profile.mergedAchievementCount}
+                </span>
+                {profile.changedSettings.length > 0 && (
+                  <>
+                    <span>设置</span>
+                    <span>{profile.changedSettings.length} 项不同（合并时保留当前设置）</span>
+                  </>
+                )}
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-3 p-3 bg-gray-50 rounded-lg border border-gray-200 text-sm text-gray-600">
+          资源：当前 {preview.currentResourceCount} · 导入 {preview.importedResourceCount} · 合并后 {preview.mergedResourceCount}
+          <br />
+          卡组：当前 {preview.currentDeckCount} · 导入 {preview.importedDeckCount} · 合并后 {preview.mergedDeckCount}
+        </div>
+
+        {preview.unmatchedCurrentProfileNames.length > 0 && (
+          <p className="mt-3 text-sm text-red-600">
+            替换将删除这些玩家：{preview.unmatchedCurrentProfileNames.join('、')}
+          </p>
+        )}
+        <p className="mt-3 text-xs text-gray-500">
+          替换：用文件内容覆盖全部数据。合并：保留现有玩家和设置，奖励取较大值，成就和游戏记录合并。家长 PIN 始终保持不变。
+        </p>
+
+        <div className="flex gap-3 mt-6">
+          <button
+            onClick={handleCancel}
+            className="w-full py-2 bg-gray-300 text-gray-700 font-bold rounded-lg shadow hover:bg-gray-400 transition active:scale-95"
+          >
+            取消
+          </button>
+          <button
+            onClick={() => handleConfirm('replace')}
+            className="w-full py-2 bg-red-500 text-white font-bold rounded-lg shadow-lg hover:bg-red-600 transition active:scale-95"
+          >
+            替换全部
+          </button>
+          <button
+            onClick={() => handleConfirm('merge')}
+            className="w-full py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95"
+          >
+            合并
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ImportPreviewDialog;
@@ -0,0 +1,194 @@
+import React, { useState } from 'react';
+import { ParentPin } from '../types';
+import { playSound } from '../services/soundService';
+import { createParentPin, verifyParentPin, verifyRecoveryCode, isValidPin, PIN_MIN_LENGTH, PIN_MAX_LENGTH } from '../services/parentPinService';
+
+interface ParentGateProps {
+  parentPin: ParentPin | null;
+  onUnlock: () => void;
+  onSetPin: (parentPin: ParentPin) => void;
+  onCancel: () => void;
+}
+
+type GateStep = 'unlock' | 'setup' | 'recovery' | 'reset';
+
+const inputClasses = "w-full p-3 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition text-center text-2xl tracking-widest";
+
+const ParentGate: React.FC<ParentGateProps> = ({ parentPin, onUnlock, onSetPin, onCancel }) => {
+  const [step, setStep] = useState<GateStep>(parentPin ? 'unlock' : 'setup');
+  const [pin, setPin] = useState('');
+  const [confirmPin, setConfirmPin] = useState('');
+  const [recoveryCode, setRecoveryCode] = useState('');
+  const [newPin, setNewPin] = useState<{ parentPin: ParentPin; recoveryCode: string } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isBusy, setIsBusy] = useState(false);
+
+  const goTo = (nextStep: GateStep) => {
+    playSound('click');
+    setStep(nextStep);
+    setPin('');
+    setConfirmPin('');
+    setRecoveryCode('');
+    setError(null);
+  };
+
+  // The new PIN is only saved once the parent has seen its recovery code.
+  const showRecoveryCode = async (chosenPin: string) => {
+    setNewPin(await createParentPin(chosenPin));
+    setStep('recovery');
+    setPin('');
+    setConfirmPin('');
+    setError(null);
+  };
+
+  const handleUnlock = async () => {
+    if (!parentPin) return;
+    setIsBusy(true);
+    const isCorrect = await verifyParentPin(pin, parentPin);
+    if (!isCorrect) {
+      setIsBusy(false);
+      playSound('incorrect');
+      setError('PIN 不正确。');
+      setPin('');
+      return;
+    }
+    playSound('correct');
+    if (parentPin.recoveryHash) {
+      setIsBusy(false);
+      onUnlock();
+      return;
+    }
+    // PINs set before recovery codes existed get one the next time they are entered.
+    await showRecoveryCode(pin);
+    setIsBusy(false);
+  };
+
+  const handleSetup = async () => {
+    if (!isValidPin(pin)) {
+      setError(`PIN 必须是 ${PIN_MIN_LENGTH}-${PIN_MAX_LENGTH} 位数字。`);
+      return;
+    }
+    if (pin !== confirmPin) {
+      setError('两次输入的 PIN 不一致。');
+      return;
+    }
+    setIsBusy(true);
+    await showRecoveryCode(pin);
+    setIsBusy(false);
+    playSound('correct');
+  };
+
+  const handleConfirmRecoveryCode = () => {
+    if (!newPin) return;
+    playSound('click');
+    onSetPin(newPin.parentPin);
+    onUnlock();
+  };
+
+  // Only the recovery code shown to the parent can replace a forgotten PIN.
+  const handleReset = async () => {
+    if (!parentPin) return;
+    setIsBusy(true);
+    const isCorrect = await verifyRecoveryCode(recoveryCode, parentPin);
+    setIsBusy(false);
+    if (isCorrect) {
+      goTo('setup');
+    } else {
+      playSound('incorrect');
+      setError('恢复码不正确。');
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (isBusy) return;
+    if (step === 'unlock') handleUnlock();
+    else if (step === 'setup') handleSetup();
+    else if (step === 'recovery') handleConfirmRecoveryCode();
+    else handleReset();
+  };
+
+  const handleCancel = () => {
+    playSound('click');
+    onCancel();
+  };
+
+  const titles: Record<GateStep, string> = {
+    unlock: '家长模式',
+    setup: '设置家长 PIN',
+    recovery: '记下恢复码',
+    reset: '重置 PIN',
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-40 animate-fade-in p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl shadow-2xl p-6">
+        <h3 className="font-display text-2xl text-purple-700 mb-4 text-center">{titles[step]}</h3>
+
+        {step === 'unlock' && (
+          <>
+            <p className="text-sm text-gray-600 mb-4 text-center">请输入家长 PIN 以修改设置和管理数据。</p>
+            <input type="password" inputMode="numeric" autoFocus value={pin} maxLength={PIN_MAX_LENGTH} onChange={(e) => setPin(e.target.value)} className={inputClasses} />
+            <button type="button" onClick={() => goTo('reset')} className="block mx-auto mt-3 text-sm text-blue-600 hover:underline">
+              忘记 PIN？
+            </button>
+          </>
+        )}
+
+        {step === 'setup' && (
+          <>
+            <p className="text-sm text-gray-600 mb-4 text-center">设置一个 {PIN_MIN_LENGTH}-{PIN_MAX_LENGTH} 位数字的 PIN。孩子需要它才能修改设置和管理数据。</p>
+            <input type="password" inputMode="numeric" autoFocus placeholder="新 PIN" value={pin} maxLength={PIN_MAX_LENGTH} onChange={(e) => setPin(e.target.value)} className={`${inputClasses} mb-3`} />
+            <input type="password" inputMode="numeric" placeholder="再次输入" value={confirmPin} maxLength={PIN_MAX_LENGTH} onChange={(e) => setConfirmPin(e.target.value)} className={inputClasses} />
+          </>
+        )}
+
+        {step === 'recovery' && newPin && (
+          <>
+            <p className="text-sm text-gray-600 mb-4 text-center">忘记 PIN 时，只能用这个恢复码重置。请抄写下来并妥善保管，不要让孩子看到。恢复码只显示这一次。</p>
+            <p className="p-3 bg-yellow-50 border-2 border-yellow-300 rounded-lg text-center text-2xl font-mono font-bold tracking-wider text-gray-800 select-all">
+              {newPin.recoveryCode}
+            </p>
+          </>
+        )}
+
+        {step === 'reset' && (
+          parentPin?.recoveryHash ? (
+            <>
+              <p className="text-sm text-gray-600 mb-4 text-center">请输入设置 PIN 时显示的恢复码，然后设置新的 PIN。</p>
+              <input type="text" autoFocus autoCapitalize="characters" autoComplete="off" placeholder="XXXX-XXXX-XXXX" value={recoveryCode} onChange={(e) => setRecoveryCode(e.target.value)} className={inputClasses} />
+            </>
+          ) : (
+            <div className="bg-red-50 border-2 border-red-200 rounded-lg p-3 text-sm text-red-700">
+              <p>这个 PIN 是在旧版本中设置的，没有恢复码，无法在应用内重置。</p>
+              <p className="mt-2">只能在浏览器设置中清除本网站的数据，这会删除所有玩家的进度。</p>
+            </div>
+          )
+        )}
+
+        {error && <p className="text-red-500 text-sm mt-3 text-center">{error}</p>}
+
+        <div className="flex gap-4 mt-6">
+          {step !== 'recovery' && (
+            <button
+              type="button"
+              onClick={handleCancel}
+              className="w-full py-2 bg-gray-300 text-gray-700 font-bold rounded-lg shadow hover:bg-gray-400 transition active:scale-95"
+            >
+              取消
+            </button>
+          )}
+          <button
+            type="submit"
+            disabled={isBusy || (step === 'reset' && !parentPin?.recoveryHash)}
+            className="w-full py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95 disabled:opacity-50"
+          >
+            {step === 'recovery' ? '我已记下' : '确定'}
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ParentGate;
@@ -0,0 +1,156 @@
+import React, { useState } from 'react';
+import { PlayerProfile } from '../types';
+import { ArrowLeftIcon, XIcon } from './icons';
+import { playSound } from '../services/soundService';
+import { PROFILE_AVATARS } from '../services/profileService';
+
+interface ProfileScreenProps {
+  profiles: PlayerProfile[];
+  activeProfileId: string | null;
+  onSelect: (profileId: string) => void;
+  onCreate: (name: string, avatar: string) => void;
+  onDelete: (profileId: string) => void;
+  onBack: () => void;
+  isParentMode: boolean;
+  onRequestParentMode: () => void;
+}
+
+const MAX_NAME_LENGTH = 12;
+
+const ProfileScreen: React.FC<ProfileScreenProps> = ({ profiles, activeProfileId, onSelect, onCreate, onDelete, onBack, isParentMode, onRequestParentMode }) => {
+  const [isCreating, setIsCreating] = useState(false);
+  const [newName, setNewName] = useState('');
+  const [newAvatar, setNewAvatar] = useState(PROFILE_AVATARS[0]);
+
+  const handleBack = () => {
+    playSound('click');
+    onBack();
+  };
+
+  const handleSelect = (profileId: string) => {
+    playSound('click');
+    onSelect(profileId);
+  };
+
+  const handleCreate = (e: React.FormEvent) => {
+    e.preventDefault();
+    const name = newName.trim();
+    if (!name) return;
+    playSound('correct');
+    onCreate(name, newAvatar);
+    setNewName('');
+    setNewAvatar(PROFILE_AVATARS[0]);
+    setIsCreating(false);
+  };
+
+  // Deleting a player wipes their progress, so only a parent may do it.
+  const handleDelete = (profile: PlayerProfile) => {
+    playSound('click');
+    if (!isParentMode) {
+      onRequestParentMode();
+      return;
+    }
+    const isConfirmed = window.confirm(
+      `确定要删除“${profile.name}”吗？\n\n该玩家的所有奖励、成就和游戏记录都会被删除。删除前会自动创建一个备份，可以在设置中恢复。`
+    );
+    if (isConfirmed) {
+      playSound('incorrect');
+      onDelete(profile.id);
+    }
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 animate-fade-in">
+      <div className="flex items-center mb-6">
+        {activeProfileId && (
+          <button onClick={handleBack} className="p-2 mr-4 rounded-full hover:bg-gray-200 transition active:scale-90">
+            <ArrowLeftIcon />
+          </button>
+        )}
+        <h2 className="font-display text-3xl text-purple-700">谁在玩？</h2>
+      </div>
+
+      <div className="flex-grow overflow-y-auto pr-2">
+        <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+          {profiles.map(profile => (
+            <div key={profile.id} className="relative">
+              <button
+                onClick={() => handleSelect(profile.id)}
+                className={`w-full flex flex-col items-center p-6 bg-white rounded-xl shadow-lg transition transform hover:-translate-y-1 active:scale-95 border-4 ${profile.id === activeProfileId ? 'border-purple-500' : 'border-transparent'}`}
+              >
+                <span className="text-6xl mb-2">{profile.avatar}</span>
+                <span className="font-bold text-xl text-gray-800 truncate max-w-full">{profile.name}</span>
+                <span className="text-sm text-gray-500">✨ {profile.playerRewards.stars} · 💎 {profile.playerRewards.gems} · 🏆 {profile.playerRewards.trophies}</span>
+              </button>
+              {profile.id !== activeProfileId && (
+                <button
+                  onClick={() => handleDelete(profile)}
+                  className="absolute top-2 right-2 p-1 rounded-full text-gray-400 hover:text-red-600 hover:bg-red-50 transition"
+                  title={isParentMode ? '删除玩家' : '删除玩家（需要家长模式）'}
+                >
+                  <XIcon className="w-5 h-5" strokeWidth={2} />
+                </button>
+              )}
+            </div>
+          ))}
+
+          {!isCreating && (
+            <button
+              onClick={() => { playSound('click'); setIsCreating(true); }}
+              className="flex flex-col items-center justify-center p-6 border-4 border-dashed border-gray-300 rounded-xl text-gray-500 hover:border-purple-400 hover:text-purple-600 transition"
+            >
+              <span className="text-6xl mb-2">＋</span>
+              <span className="font-bold text-xl">添加玩家</span>
+            </button>
+          )}
+        </div>
+
+        {isCreating && (
+          <form onSubmit={handleCreate} className="mt-6 p-4 bg-blue-50 border-2 border-blue-200 rounded-lg">
+            <label htmlFor="profile-name" className="block text-lg font-semibold text-gray-700 mb-2">名字</label>
+            <input
+              id="profile-name"
+              type="text"
+              value={newName}
+              maxLength={MAX_NAME_LENGTH}
+              onChange={(e) => setNewName(e.target.value)}
+              className="w-full p-3 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition mb-4"
+              autoFocus
+            />
+            <p className="text-lg font-semibold text-gray-700 mb-2">头像</p>
+            <div className="grid grid-cols-8 gap-2 mb-4">
+              {PROFILE_AVATARS.map(avatar => (
+                <button
+                  key={avatar}
+                  type="button"
+                  onClick={() => setNewAvatar(avatar)}
+                  className={`text-3xl p-1 rounded-lg transition ${avatar === newAvatar ? 'bg-purple-200 ring-2 ring-purple-500' : 'hover:bg-gray-200'}`}
+                >
+                  {avatar}
+                </button>
+              ))}
+            </div>
+            <div className="flex gap-4">
+              <button
+                type="button"
+                onClick={() => { playSound('click'); setIsCreating(false); }}
+                className="w-full py-2 bg-gray-300 text-gray-700 font-bold rounded-lg shadow hover:bg-gray-400 transition active:scale-95"
+              >
+                取消
+              </button>
+              <button
+                type="submit"
+                disabled={!newName.trim()}
+                className="w-full py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                创建
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ProfileScreen;
@@ -0,0 +1,193 @@
+import React, { useMemo, useState } from 'react';
+import { SessionLogEntry, StimulusType } from '../types';
+import { ArrowLeftIcon } from './icons';
+import { playSound } from '../services/soundService';
+import { summarizeByPeriod, summarizeBy, countGamesPerDay, toDateKey, ProgressPeriod } from '../services/progressService';
+import { LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
+
+interface ProgressScreenProps {
+  sessionLog: SessionLogEntry[];
+  onBack: () => void;
+}
+
+const stimulusTypeMap: { [key in StimulusType]?: string } = {
+    [StimulusType.EMOJI]: '表情',
+    [StimulusType.COLOR]: '颜色',
+    [StimulusType.SHAPE]: '形状',
+    [StimulusType.NUMBER]: '数字',
+    [StimulusType.TEXT]: '文字',
+    [StimulusType.LETTER]: '字母',
+    [StimulusType.IMAGE]: '图片',
+    [StimulusType.RANDOM]: '随机',
+};
+
+const HEATMAP_WEEKS = 16;
+const weekdayLabels = ['一', '二', '三', '四', '五', '六', '日'];
+
+const getHeatColor = (count: number) => {
+    if (count === 0) return 'bg-gray-100';
+    if (count === 1) return 'bg-green-200';
+    if (count <= 3) return 'bg-green-400';
+    return 'bg-green-600';
+};
+
+const TrainingHeatmap: React.FC<{ sessionLog: SessionLogEntry[] }> = ({ sessionLog }) => {
+    const weeks = useMemo(() => {
+        const counts = countGamesPerDay(sessionLog);
+        const today = new Date();
+        // Start on the Monday HEATMAP_WEEKS - 1 weeks before this week's Monday
+        const start = new Date(today.getFullYear(), today.getMonth(), today.getDate());
+        start.setDate(start.getDate() - ((start.getDay() + 6) % 7) - (HEATMAP_WEEKS - 1) * 7);
+
+        return Array.from({ length: HEATMAP_WEEKS }, (_, week) =>
+            Array.from({ length: 7 }, (_, day) => {
+                const date = new Date(start);
+                date.setDate(start.getDate() + week * 7 + day);
+                const key = toDateKey(date);
+                return { key, count: counts.get(key) || 0, isFuture: date > today };
+            })
+        );
+    }, [sessionLog]);
+
+    return (
+        <div className="flex gap-1 overflow-x-auto">
+            <div className="flex flex-col gap-1 mr-1">
+                {weekdayLabels.map(label => (
+                    <div key={label} className="w-4 h-4 text-[10px] leading-4 text-gray-500">{label}</div>
+                ))}
+            </div>
+            {weeks.map((days, index) => (
+                <div key={index} className="flex flex-col gap-1">
+                    {days.map(day => (
+                        <div
+                            key={day.key}
+                            title={`${day.key}: ${day.count} 局`}
+                            className={`w-4 h-4 rounded-sm ${day.isFuture ? 'bg-transparent' : getHeatColor(day.count)}`}
+                        />
+                    ))}
+                </div>
+            ))}
+        </div>
+    );
+};
+
+const ChartCard: React.FC<{ title: string; children: React.ReactNode }> = ({ title, children }) => (
+    <div className="p-4 bg-white/80 rounded-xl shadow-lg mb-6">
+        <h3 className="font-display text-xl text-gray-700 mb-4 text-center">{title}</h3>
+        {children}
+    </div>
+);
+
+const ProgressScreen: React.FC<ProgressScreenProps> = ({ sessionLog, onBack }) => {
+  const [period, setPeriod] = useState<ProgressPeriod>('day');
+
+  const periodSummaries = useMemo(() => summarizeByPeriod(sessionLog, period), [sessionLog, period]);
+  const byStimulusType = useMemo(
+    () => summarizeBy(sessionLog, entry => entry.settings.stimulusType).map(s => ({ ...s, name: stimulusTypeMap[s.key as StimulusType] || s.key })),
+    [sessionLog]
+  );
+  const bySpeed = useMemo(
+    () => summarizeBy(sessionLog, entry => String(entry.settings.speed)).map(s => ({ ...s, name: `${s.key}ms` })),
+    [sessionLog]
+  );
+
+  const handleBack = () => {
+    playSound('click');
+    onBack();
+  };
+
+  const handlePeriodChange = (newPeriod: ProgressPeriod) => {
+    playSound('click');
+    setPeriod(newPeriod);
+  };
+
+  return (
+    <div className="flex flex-col h-full p-4 animate-fade-in">
+      <div className="flex items-center mb-4">
+        <button onClick={handleBack} className="p-2 mr-4 rounded-full hover:bg-gray-200 transition active:scale-90">
+          <ArrowLeftIcon />
+        </button>
+        <h2 className="font-display text-3xl text-purple-700">我的进步</h2>
+      </div>
+
+      {sessionLog.length === 0 ? (
+        <p className="text-center text-gray-500 mt-12">还没有游戏记录。玩一局之后再来看看吧！</p>
+      ) : (
+        <div className="flex-grow overflow-y-auto pr-2">
+          <ChartCard title={`训练日历 (共 ${sessionLog.length} 局)`}>
+            <TrainingHeatmap sessionLog={sessionLog} />
+          </ChartCard>
+
+          <div className="flex justify-center gap-2 mb-4">
+            {(['day', 'week'] as ProgressPeriod[]).map(p => (
+              <button
+                key={p}
+                onClick={() => handlePeriodChange(p)}
+                className={`px-4 py-1 rounded-full font-semibold transition ${period === p ? 'bg-purple-600 text-white' : 'bg-gray-200 text-gray-700 hover:bg-gray-300'}`}
+              >
+                {p === 'day' ? '按天' : '按周'}
+              </button>
+            ))}
+          </div>
+
+          <ChartCard title="得分">
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={periodSummaries} margin={{ top: 10, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="key" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="bestScore" name="最高分" stroke="#8884d8" strokeWidth={2} />
+                <Line type="monotone" dataKey="averageScore" name="平均分" stroke="#82ca9d" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="正确率与 N 等级">
+            <ResponsiveContainer width="100%" height={220}>
+              <LineChart data={periodSummaries} margin={{ top: 10, right: 0, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="key" />
+                <YAxis yAxisId="accuracy" domain={[0, 100]} unit="%" />
+                <YAxis yAxisId="nLevel" orientation="right" domain={[1, 5]} allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line yAxisId="accuracy" type="monotone" dataKey="averageAccuracy" name="平均正确率 (%)" stroke="#10b981" strokeWidth={2} />
+                <Line yAxisId="nLevel" type="stepAfter" dataKey="averageNLevel" name="平均 N 等级" stroke="#f59e0b" strokeWidth={2} />
+              </LineChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="按刺激类型">
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={byStimulusType} margin={{ top: 10, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="averageAccuracy" name="平均正确率 (%)" fill="#8884d8" />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+
+          <ChartCard title="按速度">
+            <ResponsiveContainer width="100%" height={220}>
+              <BarChart data={bySpeed} margin={{ top: 10, right: 20, left: -10, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="name" />
+                <YAxis domain={[0, 100]} unit="%" />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="averageAccuracy" name="平均正确率 (%)" fill="#82ca9d" />
+              </BarChart>
+            </ResponsiveContainer>
+          </ChartCard>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ProgressScreen;
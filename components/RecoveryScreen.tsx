@@ -0,0 +1,124 @@
+import React, { useMemo } from 'react';
+import { DownloadIcon } from './icons';
+import { playSound } from '../services/soundService';
+import { AppState, QuarantinedSave, createDefaultState } from '../services/storageService';
+import { buildRecoveredState, recoverProgress } from '../services/recoveryService';
+
+interface RecoveryScreenProps {
+  save: QuarantinedSave;
+  reason: 'corrupt' | 'crash'; // Unreadable save on startup, or a screen that crashed
+  onRestore: (state: AppState) => void;
+  onCancel?: () => void;
+}
+
+const RecoveryScreen: React.FC<RecoveryScreenProps> = ({ save, reason, onRestore, onCancel }) => {
+  const recovered = useMemo(() => recoverProgress(save.raw), [save.raw]);
+
+  const handleDownload = () => {
+    playSound('click');
+    const blob = new Blob([save.raw], { type: 'application/json' });
+    const url = URL.createObjectURL(blob);
+    const a = document.createElement('a');
+    a.href = url;
+    a.download = `n-back-recovery-${save.createdAt.replace(/[:.]/g, '-')}.json`;
+    document.body.appendChild(a);
+    a.click();
+    document.body.removeChild(a);
+    URL.revokeObjectURL(url);
+  };
+
+  const handleRecover = () => {
+    playSound('click');
+    onRestore(buildRecoveredState(recovered));
+  };
+
+  const handleStartFresh = () => {
+    playSound('click');
+    const isConfirmed = window.confirm(
+      '确定要重新开始吗？\n\n当前的奖励和成就将不会被保留。建议先下载原始数据。'
+    );
+    if (isConfirmed) {
+      onRestore(createDefaultState());
+    }
+  };
+
+  const handleCancel = () => {
+    playSound('click');
+    onCancel?.();
+  };
+
+  return (
+    <div className="flex flex-col items-center justify-center h-full p-4 animate-fade-in">
+      <div className="w-full max-w-lg bg-white rounded-2xl shadow-2xl p-6 overflow-y-auto">
+        <h2 className="font-display text-3xl text-purple-700 mb-2 text-center">数据恢复</h2>
+        {reason === 'corrupt' ? (
+          <p className="text-sm text-gray-600 mb-4 text-center">
+            保存的游戏数据无法读取。
+            {save.key ? '原始数据已单独保留，不会被删除。' : '原始数据无法单独保留，请先下载。'}
+          </p>
+        ) : (
+          <p className="text-sm text-gray-600 mb-4 text-center">
+            应用遇到了问题。你可以下载当前数据，或从中恢复奖励和成就后重新开始。
+          </p>
+        )}
+
+        <div className="p-3 bg-gray-50 rounded-lg border border-gray-200 mb-4">
+          <h3 className="font-semibold text-gray-700 mb-2">可以恢复的进度</h3>
+          {recovered.length > 0 ? (
+            <ul className="space-y-1 text-sm text-gray-600">
+              {recovered.map((player, index) => (
+                <li key={index} className="flex justify-between">
+                  <span className="font-semibold">{player.avatar} {player.name}</span>
+                  <span>
+                    {player.playerRewards
+                      ? `⭐${player.playerRewards.stars} 💎${player.playerRewards.gems} 🏆${player.playerRewards.trophies} 💯${player.playerRewards.perfectScores}`
+                      : '奖励无法恢复'}
+                    {' · '}
+                    {player.unlockedAchievements
+                      ? `${Object.keys(player.unlockedAchievements).length} 个成就`
+                      : '成就无法恢复'}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          ) : (
+            <p className="text-sm text-gray-500">没有找到可以恢复的奖励或成就。</p>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <button
+            onClick={handleDownload}
+            className="w-full flex items-center justify-center gap-2 py-2 bg-blue-500 text-white font-bold rounded-lg shadow-lg hover:bg-blue-600 transition active:scale-95"
+          >
+            <DownloadIcon />
+            下载原始数据
+          </button>
+          <button
+            onClick={handleRecover}
+            disabled={recovered.length === 0}
+            className="w-full py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            恢复这些进度
+          </button>
+          <button
+            onClick={handleStartFresh}
+            className="w-full py-2 bg-red-600 text-white font-bold rounded-lg shadow-lg hover:bg-red-700 transition active:scale-95"
+          >
+            重新开始
+          </button>
+          {onCancel && (
+            <button
+              onClick={handleCancel}
+              className="w-full py-2 bg-gray-300 text-gray-700 font-bold rounded-lg shadow hover:bg-gray-400 transition active:scale-95"
+            >
+              返回
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RecoveryScreen;
@@ -1,18 +1,30 @@
-import React, { useState } from 'react';
-import { v4 as uuidv4 } from 'uuid';
-import { Stimulus, StimulusType } from '../types';
-import { fetchNewResources } from '../services/geminiService';
-import { ArrowLeftIcon, SparklesIcon } from './icons';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Deck, Stimulus, StimulusType } from '../types';
+import { fetchNewResources } from '../services/aiService';
+import { AiRequestError } from '../services/aiRequestService';
+import { AGE_BAND_LABELS, AgeBand, AiItemType, DEFAULT_RESOURCE_REQUEST, MAX_RESOURCE_COUNT, MIN_RESOURCE_COUNT, ResourceRequest } from '../services/aiProvider';
+import { OFFLINE_TOPICS } from '../services/offlineResourceService';
+import { describeDroppedItems, screenAiItems } from '../services/aiValidationService';
+import { isStimulusEnabled } from '../services/resourceService';
+import { createDeck, importDeck, parseDeckFile, serializeDeck } from '../services/deckService';
+import { ArrowLeftIcon, SparklesIcon, LockClosedIcon, PlusIcon, PencilIcon, SearchIcon } from './icons';
 import { playSound } from '../services/soundService';
+import ResourceEditorDialog from './ResourceEditorDialog';
 
 interface ResourceBrowserProps {
   resources: Stimulus[];
   setResources: React.Dispatch<React.SetStateAction<Stimulus[]>>;
+  decks: Deck[];
+  setDecks: React.Dispatch<React.SetStateAction<Deck[]>>;
+  pendingAiItems: Stimulus[];
+  setPendingAiItems: React.Dispatch<React.SetStateAction<Stimulus[]>>;
   onBack: () => void;
   onAIFetch: () => void;
+  isParentMode: boolean;
+  onRequestParentMode: () => void;
 }
 
-const StimulusCard: React.FC<{ stimulus: Stimulus }> = ({ stimulus }) => {
+const StimulusPreview: React.FC<{ stimulus: Stimulus }> = ({ stimulus }) => {
     const baseClasses = "w-full h-32 rounded-lg flex items-center justify-center shadow-md transition-transform transform hover:scale-105";
     const nameClasses = "absolute bottom-1 right-2 text-xs font-semibold bg-black/50 text-white px-1.5 py-0.5 rounded";
 
@@ -26,23 +38,55 @@ const StimulusCard: React.FC<{ stimulus: Stimulus }> = ({ stimulus }) => {
         case StimulusType.TEXT:
         case StimulusType.LETTER:
             return <div className={`${baseClasses} bg-white text-5xl font-bold text-gray-800 relative`}><span className="truncate max-w-full px-2">{stimulus.value}</span><span className={nameClasses}>{stimulus.name}</span></div>;
+        case StimulusType.IMAGE:
+            return <div className={`${baseClasses} bg-white relative overflow-hidden`}><img src={stimulus.value} alt={stimulus.name || ''} className="w-full h-full object-cover" /><span className={nameClasses}>{stimulus.name}</span></div>;
         default:
             return <div className={baseClasses}></div>;
     }
 };
 
-const categoryMap: { [key: string]: string } = {
-  'animals': '动物',
-  'foods': '食物',
-  'nature': '自然',
-  'travel': '旅行地点',
-  'sports': '运动',
-  'objects': '物品',
-  'clothing': '服装',
-  'shapes': '形状',
-  'symbols': '符号',
+interface StimulusCardProps {
+  stimulus: Stimulus;
+  isParentMode: boolean;
+  isSelected: boolean;
+  onToggleSelect: () => void;
+  onEdit: () => void;
+}
+
+const StimulusCard: React.FC<StimulusCardProps> = ({ stimulus, isParentMode, isSelected, onToggleSelect, onEdit }) => {
+  const isEnabled = isStimulusEnabled(stimulus);
+  return (
+    <div className={`relative rounded-lg ${isSelected ? 'ring-4 ring-blue-400' : ''}`}>
+      <div className={isEnabled ? '' : 'opacity-40 grayscale'}>
+        <StimulusPreview stimulus={stimulus} />
+      </div>
+      {!isEnabled && (
+        <span className="absolute top-1 left-1/2 -translate-x-1/2 text-xs font-semibold bg-gray-700 text-white px-1.5 py-0.5 rounded">已停用</span>
+      )}
+      {isParentMode && (
+        <>
+          <input
+            type="checkbox"
+            checked={isSelected}
+            onChange={onToggleSelect}
+            className="absolute top-2 left-2 w-5 h-5 cursor-pointer"
+            aria-label={`选择${stimulus.name || stimulus.value}`}
+          />
+          <button
+            onClick={onEdit}
+            className="absolute top-1 right-1 p-1.5 bg-white/90 text-gray-600 rounded-full shadow hover:bg-white hover:text-purple-600 transition active:scale-90"
+            aria-label="编辑"
+          >
+            <PencilIcon className="w-4 h-4" />
+          </button>
+        </>
+      )}
+    </div>
+  );
 };
 
+const aiItemTypes: AiItemType[] = ['EMOJI', 'SHAPE', 'TEXT', 'COLOR'];
+
 const stimulusTypeToChinese = (type: StimulusType): string => {
     switch (type) {
         case StimulusType.EMOJI: return '表情';
@@ -51,48 +95,333 @@ const stimulusTypeToChinese = (type: StimulusType): string => {
         case StimulusType.NUMBER: return '数字';
         case StimulusType.TEXT: return '文字';
         case StimulusType.LETTER: return '字母';
+        case StimulusType.IMAGE: return '图片';
         default: return '未知';
     }
 };
 
-const ResourceBrowser: React.FC<ResourceBrowserProps> = ({ resources, setResources, onBack, onAIFetch }) => {
+// Identifies one AI fetch, so that its approved items can be filtered and rolled back together.
+const getSourceBatchKey = (stimulus: Stimulus): string | null =>
+  stimulus.source ? `${stimulus.source.category}|${stimulus.source.fetchedAt}` : null;
+
+const formatSourceBatch = (stimulus: Stimulus): string =>
+  stimulus.source ? `AI · ${stimulus.source.category} · ${new Date(stimulus.source.fetchedAt).toLocaleString()}` : '';
+
+const ResourceBrowser: React.FC<ResourceBrowserProps> = ({ resources, setResources, decks, setDecks, pendingAiItems, setPendingAiItems, onBack, onAIFetch, isParentMode, onRequestParentMode }) => {
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [selectedCategory, setSelectedCategory] = useState<string>('animals');
+  // Summary of the last fetch: what was added and what the local checks dropped.
+  const [fetchReport, setFetchReport] = useState<string | null>(null);
+  // True when the last fetch was answered from the cache, so the parent can ask the AI again.
+  const [isReportFromCache, setIsReportFromCache] = useState(false);
+  const [resourceRequest, setResourceRequest] = useState<ResourceRequest>(DEFAULT_RESOURCE_REQUEST);
+  const [searchQuery, setSearchQuery] = useState('');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  // Undefined while the editor is closed, null while adding a new stimulus.
+  const [editingStimulus, setEditingStimulus] = useState<Stimulus | null | undefined>(undefined);
+  // The deck being viewed, or null to show every resource.
+  const [viewedDeckId, setViewedDeckId] = useState<string | null>(null);
+  // 'all', 'manual' for stimuli without a source, or the batch key of one AI fetch.
+  const [sourceFilter, setSourceFilter] = useState<string>('all');
+  const deckFileInputRef = useRef<HTMLInputElement>(null);
+  // Cancels the running fetch.
+  const fetchAbortRef = useRef<AbortController | null>(null);
+
+  // A fetch still running when the browser is closed is no longer needed.
+  useEffect(() => () => fetchAbortRef.current?.abort(), []);
 
-  const handleFetchResources = async () => {
+  const viewedDeck = decks.find(d => d.id === viewedDeckId);
+
+  const handleFetchResources = async (useCache = true) => {
+    if (!isParentMode) return;
     playSound('click');
+    const controller = new AbortController();
+    fetchAbortRef.current = controller;
     setIsLoading(true);
     setError(null);
+    setFetchReport(null);
+    setIsReportFromCache(false);
     try {
-      const newItems = await fetchNewResources(categoryMap[selectedCategory]);
-      
-      const newStimuli: Stimulus[] = newItems.map(item => ({
-        id: uuidv4(),
-        type: item.type as StimulusType,
-        name: item.name,
-        value: item.emoji || item.name,
-      }));
-
-      const existingNames = new Set(resources.map(r => r.name));
-      const filteredNewStimuli = newStimuli.filter(s => !existingNames.has(s.name || ''));
-      
-      setResources(prev => [...prev, ...filteredNewStimuli]);
+      const request: ResourceRequest = {
+        ...resourceRequest,
+        topic: resourceRequest.topic.trim(),
+        count: Math.min(MAX_RESOURCE_COUNT, Math.max(MIN_RESOURCE_COUNT, Math.round(resourceRequest.count) || DEFAULT_RESOURCE_REQUEST.count)),
+      };
+      const { items: newItems, fromCache } = await fetchNewResources(request, { signal: controller.signal, useCache });
+
+      // Items already waiting for review count as existing, so a second fetch does not queue them twice.
+      const allowedTypes = request.types.map(type => StimulusType[type]);
+      const { accepted, dropped } = screenAiItems(newItems, [...resources, ...pendingAiItems], allowedTypes);
+      const droppedSummary = describeDroppedItems(dropped);
+      setFetchReport(`${fromCache ? '使用了之前相同请求的结果。' : ''}${accepted.length} 个新资源等待审核。${droppedSummary ? `已丢弃：${droppedSummary}。` : ''}`);
+      setIsReportFromCache(fromCache);
+
+      const fetchedAt = new Date().toISOString();
+      setPendingAiItems(prev => [...prev, ...accepted.map(item => ({ ...item, source: { origin: 'ai' as const, category: request.topic, fetchedAt } }))]);
       onAIFetch();
     } catch (err) {
-      setError((err as Error).message || '获取新资源失败，请重试。');
-      console.error(err);
+      if (err instanceof AiRequestError && err.kind === 'cancelled') {
+        setFetchReport(err.message);
+      } else {
+        setError((err as Error).message || '获取新资源失败，请重试。');
+        console.error(err);
+      }
     } finally {
+      if (fetchAbortRef.current === controller) fetchAbortRef.current = null;
       setIsLoading(false);
     }
   };
 
+  const handleCancelFetch = () => {
+    playSound('click');
+    fetchAbortRef.current?.abort();
+  };
+
+  const handleToggleRequestType = (type: AiItemType) => {
+    setResourceRequest(prev => ({
+      ...prev,
+      types: prev.types.includes(type) ? prev.types.filter(t => t !== type) : aiItemTypes.filter(t => t === type || prev.types.includes(t)),
+    }));
+  };
+
+  // Only approved items join the resource list and can appear in games.
+  const handleApprovePending = (items: Stimulus[]) => {
+    playSound('click');
+    const ids = new Set(items.map(item => item.id));
+    setResources(prev => [...prev, ...items]);
+    setPendingAiItems(prev => prev.filter(item => !ids.has(item.id)));
+    setFetchReport(null);
+  };
+
+  const handleRejectPending = (items: Stimulus[]) => {
+    playSound('click');
+    const ids = new Set(items.map(item => item.id));
+    setPendingAiItems(prev => prev.filter(item => !ids.has(item.id)));
+    setFetchReport(null);
+  };
+
   const handleBack = () => {
     playSound('click');
     onBack();
   }
 
-  const groupedResources = resources.reduce((acc, resource) => {
+  const handleOpenEditor = (stimulus: Stimulus | null) => {
+    playSound('click');
+    setEditingStimulus(stimulus);
+  };
+
+  const handleSaveStimulus = (stimulus: Stimulus) => {
+    setResources(prev => prev.some(r => r.id === stimulus.id)
+      ? prev.map(r => r.id === stimulus.id ? stimulus : r)
+      : [...prev, stimulus]);
+    setEditingStimulus(undefined);
+  };
+
+  // Deleted stimuli are also taken out of every deck.
+  const removeFromDecks = (stimulusIds: Set<string>) => {
+    setDecks(prev => prev.map(deck => deck.stimulusIds.some(id => stimulusIds.has(id))
+      ? { ...deck, stimulusIds: deck.stimulusIds.filter(id => !stimulusIds.has(id)) }
+      : deck));
+  };
+
+  const handleDeleteStimulus = (stimulusId: string) => {
+    setResources(prev => prev.filter(r => r.id !== stimulusId));
+    removeFromDecks(new Set([stimulusId]));
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      next.delete(stimulusId);
+      return next;
+    });
+    setEditingStimulus(undefined);
+  };
+
+  const handleToggleSelect = (stimulusId: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(stimulusId)) next.delete(stimulusId);
+      else next.add(stimulusId);
+      return next;
+    });
+  };
+
+  const handleToggleSelectAll = (items: Stimulus[]) => {
+    playSound('click');
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      const allSelected = items.every(item => next.has(item.id));
+      items.forEach(item => allSelected ? next.delete(item.id) : next.add(item.id));
+      return next;
+    });
+  };
+
+  const handleSetSelectedEnabled = (enabled: boolean) => {
+    playSound('click');
+    setResources(prev => prev.map(r => selectedIds.has(r.id) ? { ...r, enabled } : r));
+    setSelectedIds(new Set());
+  };
+
+  const handleDeleteSelected = () => {
+    playSound('click');
+    if (window.confirm(`确定要删除选中的 ${selectedIds.size} 个资源吗？`)) {
+      setResources(prev => prev.filter(r => !selectedIds.has(r.id)));
+      removeFromDecks(selectedIds);
+      setSelectedIds(new Set());
+    }
+  };
+
+  const handleCreateDeck = () => {
+    playSound('click');
+    const name = window.prompt('给新卡组起个名字，例如「农场动物」：')?.trim();
+    if (!name) return;
+    const deck = createDeck(name, resources.filter(r => selectedIds.has(r.id)).map(r => r.id));
+    setDecks(prev => [...prev, deck]);
+    setSelectedIds(new Set());
+    setViewedDeckId(deck.id);
+  };
+
+  const handleAddSelectedToDeck = (deckId: string) => {
+    if (!deckId) return;
+    playSound('click');
+    setDecks(prev => prev.map(deck => deck.id === deckId
+      ? { ...deck, stimulusIds: Array.from(new Set([...deck.stimulusIds, ...selectedIds])) }
+      : deck));
+    setSelectedIds(new Set());
+  };
+
+  const handleRemoveSelectedFromDeck = () => {
+    if (!viewedDeck) return;
+    playSound('click');
+    setDecks(prev => prev.map(deck => deck.id === viewedDeck.id
+      ? { ...deck, stimulusIds: deck.stimulusIds.filter(id => !selectedIds.has(id)) }
+      : deck));
+    setSelectedIds(new Set());
+  };
+
+  const handleViewDeck = (deckId: string | null) => {
+    playSound('click');
+    setViewedDeckId(deckId);
+    setSelectedIds(new Set());
+  };
+
+  const handleRenameDeck = () => {
+    if (!viewedDeck) return;
+    playSound('click');
+    const name = window.prompt('新的卡组名称：', viewedDeck.name)?.trim();
+    if (!name) return;
+    setDecks(prev => prev.map(deck => deck.id === viewedDeck.id ? { ...deck, name } : deck));
+  };
+
+  const handleDeleteDeck = () => {
+    if (!viewedDeck) return;
+    playSound('click');
+    if (window.confirm(`确定要删除卡组「${viewedDeck.name}」吗？卡组中的资源不会被删除。`)) {
+      setDecks(prev => prev.filter(deck => deck.id !== viewedDeck.id));
+      setViewedDeckId(null);
+    }
+  };
+
+  const handleExportDeck = () => {
+    if (!viewedDeck) return;
+    playSound('click');
+    try {
+      const blob = new Blob([serializeDeck(viewedDeck, resources)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `n-back-deck-${viewedDeck.name}.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error('Failed to export deck:', error);
+      alert('导出卡组失败。');
+    }
+  };
+
+  const handleImportDeckClick = () => {
+    playSound('click');
+    deckFileInputRef.current?.click();
+  };
+
+  const handleImportDeck = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const text = e.target?.result;
+        if (typeof text !== 'string') throw new Error('无法读取文件内容。');
+        const result = importDeck(parseDeckFile(text), resources);
+        setResources(result.resources);
+        setDecks(prev => [...prev, result.deck]);
+        setViewedDeckId(result.deck.id);
+        alert(`已导入卡组「${result.deck.name}」，共 ${result.deck.stimulusIds.length} 个资源。`);
+      } catch (error) {
+        console.error('Failed to import deck:', error);
+        alert(`导入卡组失败。${error instanceof Error ? error.message : ''}`);
+      }
+    };
+    reader.readAsText(file);
+  };
+
+  const handleSourceFilterChange = (value: string) => {
+    setSourceFilter(value);
+    setSelectedIds(new Set());
+  };
+
+  // Removes every approved item of the filtered AI fetch, e.g. when a batch turned out to be unsuitable.
+  const handleRollbackBatch = () => {
+    playSound('click');
+    const batchIds = new Set<string>(resources.filter(r => getSourceBatchKey(r) === activeSourceFilter).map(r => r.id));
+    if (batchIds.size === 0) return;
+    if (window.confirm(`确定要删除这批 AI 资源中的 ${batchIds.size} 个资源吗？`)) {
+      setResources(prev => prev.filter(r => !batchIds.has(r.id)));
+      removeFromDecks(batchIds);
+      setSelectedIds(new Set());
+      setSourceFilter('all');
+    }
+  };
+
+  const handleClearSelection = () => {
+    playSound('click');
+    setSelectedIds(new Set());
+  };
+
+  // One entry per AI fetch that still has approved items, newest first.
+  const sourceBatches = useMemo(() => {
+    const batches = new Map<string, { label: string; fetchedAt: string; count: number }>();
+    resources.forEach(r => {
+      const key = getSourceBatchKey(r);
+      if (!key || !r.source) return;
+      const batch = batches.get(key);
+      if (batch) batch.count++;
+      else batches.set(key, { label: formatSourceBatch(r), fetchedAt: r.source.fetchedAt, count: 1 });
+    });
+    return Array.from(batches.entries()).sort(([, a], [, b]) => b.fetchedAt.localeCompare(a.fetchedAt));
+  }, [resources]);
+
+  // Falls back to every source once the filtered batch no longer exists.
+  const activeSourceFilter = sourceFilter === 'all' || sourceFilter === 'manual' || sourceBatches.some(([key]) => key === sourceFilter)
+    ? sourceFilter
+    : 'all';
+
+  const filteredResources = useMemo(() => {
+    const deckIds = viewedDeck ? new Set(viewedDeck.stimulusIds) : null;
+    const inDeck = deckIds ? resources.filter(r => deckIds.has(r.id)) : resources;
+    const inView = activeSourceFilter === 'all'
+      ? inDeck
+      : inDeck.filter(r => activeSourceFilter === 'manual' ? !r.source : getSourceBatchKey(r) === activeSourceFilter);
+    const query = searchQuery.trim().toLowerCase();
+    if (!query) return inView;
+    // Image values are data URLs, which are meaningless to search.
+    return inView.filter(r => (r.name || '').toLowerCase().includes(query)
+      || (r.type !== StimulusType.IMAGE && r.value.toLowerCase().includes(query)));
+  }, [resources, searchQuery, viewedDeck, activeSourceFilter]);
+
+  const groupedResources = filteredResources.reduce((acc, resource) => {
     (acc[resource.type] = acc[resource.type] || []).push(resource);
     return acc;
   }, {} as Record<StimulusType, Stimulus[]>);
@@ -104,6 +433,7 @@ const ResourceBrowser: React.FC<ResourceBrowserProps> = ({ resources, setResourc
     StimulusType.NUMBER,
     StimulusType.TEXT,
     StimulusType.LETTER,
+    StimulusType.IMAGE,
   ];
 
   return (
@@ -116,47 +446,281 @@ const ResourceBrowser: React.FC<ResourceBrowserProps> = ({ resources, setResourc
       </div>
 
       <div className="bg-blue-50 border-2 border-blue-200 rounded-lg p-4 mb-4">
-          <div className="flex flex-col sm:flex-row gap-2">
-            <select
-              value={selectedCategory}
-              onChange={(e) => setSelectedCategory(e.target.value)}
-              className="w-full sm:w-1/2 p-2 border border-gray-300 rounded-md"
-              disabled={isLoading}
+          {!isParentMode ? (
+            <button
+              onClick={() => { playSound('click'); onRequestParentMode(); }}
+              className="w-full flex items-center justify-center gap-2 px-4 py-2 bg-amber-500 text-white font-semibold rounded-md shadow hover:bg-amber-600 transition active:scale-95"
             >
-              {Object.entries(categoryMap).map(([value, label]) => (
-                 <option key={value} value={value}>{label}</option>
-              ))}
-            </select>
+              <LockClosedIcon className="w-5 h-5" />
+              AI获取新资源需要家长模式
+            </button>
+          ) : (
+            <div className="space-y-2">
+              <div className="flex flex-col sm:flex-row gap-2">
+                <input
+                  type="text"
+                  list="ai-topic-suggestions"
+                  value={resourceRequest.topic}
+                  onChange={(e) => setResourceRequest(prev => ({ ...prev, topic: e.target.value }))}
+                  placeholder="主题，例如「海洋生物」或「本周生词」"
+                  className="w-full sm:w-1/2 p-2 border border-gray-300 rounded-md"
+                  disabled={isLoading}
+                />
+                <datalist id="ai-topic-suggestions">
+                  {OFFLINE_TOPICS.map(topic => (
+                    <option key={topic} value={topic} />
+                  ))}
+                </datalist>
+                <button
+                  onClick={() => handleFetchResources()}
+                  disabled={isLoading || !resourceRequest.topic.trim() || resourceRequest.types.length === 0}
+                  className="w-full sm:w-1/2 flex items-center justify-center px-4 py-2 bg-gradient-to-r from-purple-500 to-indigo-600 text-white font-semibold rounded-md shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
+                >
+                  <SparklesIcon className="w-5 h-5 mr-2"/>
+                  {isLoading ? 'AI获取并校验中...' : 'AI获取新资源'}
+                </button>
+                {isLoading && (
+                  <button
+                    onClick={handleCancelFetch}
+                    className="w-full sm:w-auto px-4 py-2 bg-gray-300 text-gray-700 font-semibold rounded-md shadow hover:bg-gray-400 transition active:scale-95 flex-shrink-0"
+                  >
+                    取消
+                  </button>
+                )}
+              </div>
+              <div className="flex flex-wrap items-center gap-x-4 gap-y-2 text-sm text-gray-700">
+                <label className="flex items-center gap-1">
+                  数量
+                  <input
+                    type="number"
+                    min={MIN_RESOURCE_COUNT}
+                    max={MAX_RESOURCE_COUNT}
+                    value={resourceRequest.count}
+                    onChange={(e) => setResourceRequest(prev => ({ ...prev, count: Number(e.target.value) }))}
+                    className="w-16 p-1 border border-gray-300 rounded-md"
+                    disabled={isLoading}
+                  />
+                </label>
+                <label className="flex items-center gap-1">
+                  年龄
+                  <select
+                    value={resourceRequest.ageBand}
+                    onChange={(e) => setResourceRequest(prev => ({ ...prev, ageBand: e.target.value as AgeBand }))}
+                    className="p-1 border border-gray-300 rounded-md"
+                    disabled={isLoading}
+                  >
+                    {(Object.keys(AGE_BAND_LABELS) as AgeBand[]).map(band => (
+                      <option key={band} value={band}>{AGE_BAND_LABELS[band]}</option>
+                    ))}
+                  </select>
+                </label>
+                <span className="flex flex-wrap items-center gap-x-3 gap-y-1">
+                  类型
+                  {aiItemTypes.map(type => (
+                    <label key={type} className="flex items-center gap-1">
+                      <input
+                        type="checkbox"
+                        checked={resourceRequest.types.includes(type)}
+                        onChange={() => handleToggleRequestType(type)}
+                        disabled={isLoading}
+                      />
+                      {stimulusTypeToChinese(StimulusType[type])}
+                    </label>
+                  ))}
+                </span>
+              </div>
+            </div>
+          )}
+          {fetchReport && (
+            <p className="text-blue-700 text-sm mt-2">
+              {fetchReport}
+              {isReportFromCache && !isLoading && (
+                <button onClick={() => handleFetchResources(false)} className="ml-2 font-semibold text-blue-600 underline hover:text-blue-800">
+                  重新生成
+                </button>
+              )}
+            </p>
+          )}
+          {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+      </div>
+
+      {isParentMode && pendingAiItems.length > 0 && (
+        <div className="bg-amber-50 border-2 border-amber-200 rounded-lg p-4 mb-4">
+          <div className="flex flex-wrap items-center gap-2 mb-3">
+            <h3 className="font-semibold text-amber-800 mr-auto">待审核的 AI 资源 ({pendingAiItems.length})</h3>
+            <button onClick={() => handleApprovePending(pendingAiItems)} className="px-3 py-1 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600 transition active:scale-95">全部接受</button>
+            <button onClick={() => handleRejectPending(pendingAiItems)} className="px-3 py-1 bg-gray-300 text-gray-700 text-sm font-semibold rounded-md hover:bg-gray-400 transition active:scale-95">全部拒绝</button>
+          </div>
+          <p className="text-xs text-amber-700 mb-3">审核通过的资源才会加入资源库并出现在游戏中。</p>
+          <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4 max-h-80 overflow-y-auto">
+            {pendingAiItems.map(item => (
+              <div key={item.id}>
+                <StimulusPreview stimulus={item} />
+                <div className="flex gap-2 mt-2">
+                  <button onClick={() => handleApprovePending([item])} className="flex-1 px-2 py-1 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600 transition active:scale-95">接受</button>
+                  <button onClick={() => handleRejectPending([item])} className="flex-1 px-2 py-1 bg-red-500 text-white text-sm font-semibold rounded-md hover:bg-red-600 transition active:scale-95">拒绝</button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      <div className="flex gap-2 mb-4">
+        <div className="relative flex-grow">
+          <SearchIcon className="w-5 h-5 absolute left-3 top-1/2 -translate-y-1/2 text-gray-400" />
+          <input
+            type="search"
+            value={searchQuery}
+            onChange={(e) => setSearchQuery(e.target.value)}
+            placeholder="按名称搜索资源"
+            className="w-full p-2 pl-10 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition"
+          />
+        </div>
+        {isParentMode && (
+          <button
+            onClick={() => handleOpenEditor(null)}
+            className="flex items-center gap-1 px-4 py-2 bg-green-500 text-white font-semibold rounded-lg shadow hover:bg-green-600 transition active:scale-95 flex-shrink-0"
+          >
+            <PlusIcon className="w-5 h-5" />
+            添加资源
+          </button>
+        )}
+      </div>
+
+      <div className="bg-white border-2 border-gray-200 rounded-lg p-2 mb-4">
+        <div className="flex flex-wrap items-center gap-2">
+          <span className="text-sm font-semibold text-gray-600 mr-1">卡组：</span>
+          <button
+            onClick={() => handleViewDeck(null)}
+            className={`px-3 py-1 text-sm font-semibold rounded-full transition active:scale-95 ${!viewedDeck ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
+          >
+            全部资源
+          </button>
+          {decks.map(deck => (
             <button
-              onClick={handleFetchResources}
-              disabled={isLoading}
-              className="w-full sm:w-1/2 flex items-center justify-center px-4 py-2 bg-gradient-to-r from-purple-500 to-indigo-600 text-white font-semibold rounded-md shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed active:scale-95"
+              key={deck.id}
+              onClick={() => handleViewDeck(deck.id)}
+              className={`px-3 py-1 text-sm font-semibold rounded-full transition active:scale-95 ${viewedDeck?.id === deck.id ? 'bg-purple-500 text-white' : 'bg-gray-100 text-gray-700 hover:bg-gray-200'}`}
             >
-              <SparklesIcon className="w-5 h-5 mr-2"/>
-              {isLoading ? 'AI获取并校验中...' : 'AI获取新资源'}
+              {deck.name} ({deck.stimulusIds.length})
             </button>
+          ))}
+          {isParentMode && (
+            <button onClick={handleImportDeckClick} className="px-3 py-1 text-sm font-semibold text-blue-600 hover:text-blue-800 ml-auto">
+              导入卡组
+            </button>
+          )}
+        </div>
+        {(sourceBatches.length > 0 || activeSourceFilter !== 'all') && (
+          <div className="flex flex-wrap items-center gap-2 mt-2 pt-2 border-t">
+            <span className="text-sm font-semibold text-gray-600 mr-1">来源：</span>
+            <select
+              value={activeSourceFilter}
+              onChange={(e) => handleSourceFilterChange(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              <option value="all">全部来源</option>
+              <option value="manual">非 AI 资源</option>
+              {sourceBatches.map(([key, batch]) => (
+                <option key={key} value={key}>{batch.label} ({batch.count})</option>
+              ))}
+            </select>
+            {isParentMode && activeSourceFilter !== 'all' && activeSourceFilter !== 'manual' && (
+              <button onClick={handleRollbackBatch} className="px-3 py-1 bg-red-500 text-white text-sm font-semibold rounded-md hover:bg-red-600 transition active:scale-95">撤销这批资源</button>
+            )}
           </div>
-          {error && <p className="text-red-500 text-sm mt-2">{error}</p>}
+        )}
+        {isParentMode && viewedDeck && (
+          <div className="flex flex-wrap gap-2 mt-2 pt-2 border-t">
+            <button onClick={handleRenameDeck} className="px-3 py-1 bg-gray-200 text-gray-700 text-sm font-semibold rounded-md hover:bg-gray-300 transition active:scale-95">重命名</button>
+            <button onClick={handleExportDeck} className="px-3 py-1 bg-blue-500 text-white text-sm font-semibold rounded-md hover:bg-blue-600 transition active:scale-95">导出卡组</button>
+            <button onClick={handleDeleteDeck} className="px-3 py-1 bg-red-500 text-white text-sm font-semibold rounded-md hover:bg-red-600 transition active:scale-95">删除卡组</button>
+          </div>
+        )}
+        <input
+          type="file"
+          ref={deckFileInputRef}
+          onChange={handleImportDeck}
+          className="hidden"
+          accept="application/json"
+        />
       </div>
 
+      {isParentMode && selectedIds.size > 0 && (
+        <div className="flex flex-wrap items-center gap-2 bg-purple-50 border-2 border-purple-200 rounded-lg p-2 mb-4">
+          <span className="text-sm font-semibold text-purple-700 mr-auto">已选择 {selectedIds.size} 个</span>
+          <button onClick={() => handleSetSelectedEnabled(true)} className="px-3 py-1 bg-green-500 text-white text-sm font-semibold rounded-md hover:bg-green-600 transition active:scale-95">启用</button>
+          <button onClick={() => handleSetSelectedEnabled(false)} className="px-3 py-1 bg-gray-500 text-white text-sm font-semibold rounded-md hover:bg-gray-600 transition active:scale-95">停用</button>
+          <button onClick={handleDeleteSelected} className="px-3 py-1 bg-red-500 text-white text-sm font-semibold rounded-md hover:bg-red-600 transition active:scale-95">删除</button>
+          <button onClick={handleCreateDeck} className="px-3 py-1 bg-purple-500 text-white text-sm font-semibold rounded-md hover:bg-purple-600 transition active:scale-95">存为新卡组</button>
+          {viewedDeck ? (
+            <button onClick={handleRemoveSelectedFromDeck} className="px-3 py-1 bg-amber-500 text-white text-sm font-semibold rounded-md hover:bg-amber-600 transition active:scale-95">移出卡组</button>
+          ) : decks.length > 0 && (
+            <select
+              value=""
+              onChange={(e) => handleAddSelectedToDeck(e.target.value)}
+              className="px-2 py-1 text-sm border border-gray-300 rounded-md"
+            >
+              <option value="">加入卡组…</option>
+              {decks.map(deck => (
+                <option key={deck.id} value={deck.id}>{deck.name}</option>
+              ))}
+            </select>
+          )}
+          <button onClick={handleClearSelection} className="px-3 py-1 bg-gray-300 text-gray-700 text-sm font-semibold rounded-md hover:bg-gray-400 transition active:scale-95">取消选择</button>
+        </div>
+      )}
+
       <div className="flex-grow overflow-y-auto pr-2">
         {orderedTypes.map(type => {
           const items = groupedResources[type];
           if (!items || items.length === 0) return null;
+          const disabledCount = items.filter(item => !isStimulusEnabled(item)).length;
           return (
             <div key={type} className="mb-6">
-              <h3 className="font-display text-xl text-gray-600 mb-3 border-b pb-2">
-                {stimulusTypeToChinese(type)} ({items.length})
-              </h3>
+              <div className="flex items-center justify-between mb-3 border-b pb-2">
+                <h3 className="font-display text-xl text-gray-600">
+                  {stimulusTypeToChinese(type)} ({items.length}{disabledCount > 0 ? `，${disabledCount} 个已停用` : ''})
+                </h3>
+                {isParentMode && (
+                  <button onClick={() => handleToggleSelectAll(items)} className="text-sm font-semibold text-blue-600 hover:text-blue-800">
+                    {items.every(item => selectedIds.has(item.id)) ? '取消全选' : '全选'}
+                  </button>
+                )}
+              </div>
               <div className="grid grid-cols-2 sm:grid-cols-3 md:grid-cols-4 gap-4">
                 {items.map(stimulus => (
-                  <StimulusCard key={stimulus.id} stimulus={stimulus} />
+                  <StimulusCard
+                    key={stimulus.id}
+                    stimulus={stimulus}
+                    isParentMode={isParentMode}
+                    isSelected={selectedIds.has(stimulus.id)}
+                    onToggleSelect={() => handleToggleSelect(stimulus.id)}
+                    onEdit={() => handleOpenEditor(stimulus)}
+                  />
                 ))}
               </div>
             </div>
           );
         })}
+        {filteredResources.length === 0 && (
+          <p className="text-center text-gray-500 mt-8">
+            {searchQuery.trim() || activeSourceFilter !== 'all' ? '没有找到匹配的资源。' : viewedDeck ? '这个卡组还是空的。在「全部资源」中选择资源后可以加入卡组。' : '资源库是空的。'}
+          </p>
+        )}
       </div>
+
+      {isParentMode && editingStimulus !== undefined && (
+        <ResourceEditorDialog
+          stimulus={editingStimulus}
+          resources={resources}
+          getTypeLabel={stimulusTypeToChinese}
+          onSave={handleSaveStimulus}
+          onDelete={handleDeleteStimulus}
+          onCancel={() => setEditingStimulus(undefined)}
+        />
+      )}
     </div>
   );
 };
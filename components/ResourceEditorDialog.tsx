@@ -0,0 +1,225 @@
+import React, { useState } from 'react';
+import { v4 as uuidv4 } from 'uuid';
+import { Stimulus, StimulusType } from '../types';
+import { playSound } from '../services/soundService';
+import { validateStimulus } from '../services/resourceService';
+import { compressImage } from '../services/imageService';
+import { TrashIcon } from './icons';
+
+interface ResourceEditorDialogProps {
+  stimulus: Stimulus | null; // Null when adding a new stimulus
+  resources: Stimulus[];
+  getTypeLabel: (type: StimulusType) => string;
+  onSave: (stimulus: Stimulus) => void;
+  onDelete: (stimulusId: string) => void;
+  onCancel: () => void;
+}
+
+const EDITABLE_TYPES = [
+  StimulusType.EMOJI,
+  StimulusType.SHAPE,
+  StimulusType.COLOR,
+  StimulusType.NUMBER,
+  StimulusType.TEXT,
+  StimulusType.LETTER,
+  StimulusType.IMAGE,
+];
+
+const valuePlaceholders: Record<string, string> = {
+  [StimulusType.EMOJI]: '例如 🐼',
+  [StimulusType.SHAPE]: '例如 ◆',
+  [StimulusType.NUMBER]: '例如 42',
+  [StimulusType.TEXT]: '例如 熊猫',
+  [StimulusType.LETTER]: '例如 A',
+};
+
+const inputClasses = "w-full p-2 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition";
+
+// Values are stored in the same form as the built-in catalogue.
+const normalizeValue = (type: StimulusType, value: string): string => {
+  const trimmed = value.trim();
+  return type === StimulusType.COLOR || type === StimulusType.LETTER ? trimmed.toUpperCase() : trimmed;
+};
+
+const ResourceEditorDialog: React.FC<ResourceEditorDialogProps> = ({ stimulus, resources, getTypeLabel, onSave, onDelete, onCancel }) => {
+  const [type, setType] = useState<StimulusType>(stimulus?.type ?? StimulusType.TEXT);
+  const [value, setValue] = useState(stimulus?.value ?? '');
+  const [name, setName] = useState(stimulus?.name ?? '');
+  const [error, setError] = useState<string | null>(null);
+  const [isProcessingImage, setIsProcessingImage] = useState(false);
+
+  const handleTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    const newType = e.target.value as StimulusType;
+    setType(newType);
+    setValue(newType === StimulusType.COLOR ? '#FF0000' : '');
+    setError(null);
+  };
+
+  const handleImageChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allows picking the same file again
+    if (!file) return;
+    setIsProcessingImage(true);
+    setError(null);
+    try {
+      setValue(await compressImage(file));
+      if (!name.trim()) setName(file.name.replace(/\.[^.]+$/, '').slice(0, 20));
+    } catch (err) {
+      setError((err as Error).message);
+    } finally {
+      setIsProcessingImage(false);
+    }
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const normalizedValue = normalizeValue(type, value);
+    const draft: Stimulus = {
+      ...stimulus,
+      id: stimulus?.id ?? uuidv4(),
+      type,
+      value: normalizedValue,
+      // An image's value is a data URL, so it needs a real name.
+      name: name.trim() || (type === StimulusType.IMAGE ? '' : normalizedValue),
+    };
+    const validationError = validateStimulus(draft, resources);
+    if (validationError) {
+      playSound('incorrect');
+      setError(validationError);
+      return;
+    }
+    playSound('correct');
+    onSave(draft);
+  };
+
+  const handleDelete = () => {
+    if (!stimulus) return;
+    playSound('click');
+    if (window.confirm(`确定要删除「${stimulus.name || stimulus.value}」吗？`)) {
+      onDelete(stimulus.id);
+    }
+  };
+
+  const handleCancel = () => {
+    playSound('click');
+    onCancel();
+  };
+
+  return (
+    <div className="absolute inset-0 bg-black/50 backdrop-blur-sm flex items-center justify-center z-40 animate-fade-in p-4">
+      <form onSubmit={handleSubmit} className="w-full max-w-sm bg-white rounded-2xl shadow-2xl p-6">
+        <h3 className="font-display text-2xl text-purple-700 mb-4 text-center">{stimulus ? '编辑资源' : '添加资源'}</h3>
+
+        <div className="space-y-4">
+          <div>
+            <label htmlFor="resource-type" className="block text-sm font-semibold text-gray-700 mb-1">类型</label>
+            <select
+              id="resource-type"
+              value={type}
+              onChange={handleTypeChange}
+              disabled={!!stimulus}
+              className={`${inputClasses} disabled:bg-gray-100`}
+            >
+              {EDITABLE_TYPES.map(t => (
+                <option key={t} value={t}>{getTypeLabel(t)}</option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label htmlFor="resource-value" className="block text-sm font-semibold text-gray-700 mb-1">内容</label>
+            {type === StimulusType.COLOR ? (
+              <div className="flex items-center gap-3">
+                <input
+                  type="color"
+                  value={/^#[0-9a-f]{6}$/i.test(value) ? value : '#000000'}
+                  onChange={(e) => setValue(e.target.value.toUpperCase())}
+                  className="h-11 w-16 rounded border-2 border-gray-300 cursor-pointer"
+                />
+                <input
+                  id="resource-value"
+                  type="text"
+                  value={value}
+                  maxLength={7}
+                  onChange={(e) => setValue(e.target.value)}
+                  className={`${inputClasses} font-mono uppercase`}
+                />
+              </div>
+            ) : type === StimulusType.IMAGE ? (
+              <label className="flex flex-col items-center justify-center w-full h-40 border-2 border-dashed border-gray-300 rounded-lg cursor-pointer hover:border-blue-400 transition overflow-hidden bg-gray-50">
+                {value ? (
+                  <img src={value} alt={name} className="w-full h-full object-contain" />
+                ) : (
+                  <span className="text-gray-500 text-sm">{isProcessingImage ? '正在压缩图片...' : '点击选择图片（照片会在本机缩小后保存）'}</span>
+                )}
+                <input
+                  id="resource-value"
+                  type="file"
+                  accept="image/*"
+                  onChange={handleImageChange}
+                  disabled={isProcessingImage}
+                  className="hidden"
+                />
+              </label>
+            ) : (
+              <input
+                id="resource-value"
+                type="text"
+                inputMode={type === StimulusType.NUMBER ? 'numeric' : undefined}
+                autoFocus
+                value={value}
+                placeholder={valuePlaceholders[type]}
+                onChange={(e) => setValue(e.target.value)}
+                className={`${inputClasses} text-2xl text-center`}
+              />
+            )}
+          </div>
+
+          <div>
+            <label htmlFor="resource-name" className="block text-sm font-semibold text-gray-700 mb-1">名称</label>
+            <input
+              id="resource-name"
+              type="text"
+              value={name}
+              maxLength={20}
+              placeholder={type === StimulusType.IMAGE ? '例如 奶奶' : '可选，默认与内容相同'}
+              onChange={(e) => setName(e.target.value)}
+              className={inputClasses}
+            />
+          </div>
+        </div>
+
+        {error && <p className="text-red-500 text-sm mt-3 text-center">{error}</p>}
+
+        <div className="flex gap-3 mt-6">
+          {stimulus && (
+            <button
+              type="button"
+              onClick={handleDelete}
+              className="p-2 bg-red-100 text-red-600 rounded-lg hover:bg-red-200 transition active:scale-95"
+              aria-label="删除"
+            >
+              <TrashIcon />
+            </button>
+          )}
+          <button
+            type="button"
+            onClick={handleCancel}
+            className="w-full py-2 bg-gray-300 text-gray-700 font-bold rounded-lg shadow hover:bg-gray-400 transition active:scale-95"
+          >
+            取消
+          </button>
+          <button
+            type="submit"
+            disabled={isProcessingImage}
+            className="w-full py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95 disabled:opacity-50"
+          >
+            保存
+          </button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default ResourceEditorDialog;
@@ -1,16 +1,24 @@
 import React from 'react';
-import { GameSettings, StimulusType } from '../types';
-import { ArrowLeftIcon, DownloadIcon, UploadIcon } from './icons';
+import { Deck, GameSettings, StimulusType, GameMode, ColorDifficulty } from '../types';
+import { ArrowLeftIcon, DownloadIcon, UploadIcon, LockClosedIcon } from './icons';
 import { playSound } from '../services/soundService';
+import { BackupReason, BackupSummary } from '../services/backupService';
+import AiSettingsSection from './AiSettingsSection';
 
 
 interface SettingsScreenProps {
   settings: GameSettings;
   setSettings: React.Dispatch<React.SetStateAction<GameSettings>>;
+  decks: Deck[];
   onBack: () => void;
   onClearAllProgress: () => void;
   onExport: () => void;
   onImportClick: () => void;
+  backups: BackupSummary[];
+  onRestoreBackup: (backupId: string) => void;
+  isParentMode: boolean;
+  onRequestParentMode: () => void;
+  onLockParentMode: () => void;
 }
 
 const stimulusTypeMap: { [key in StimulusType]?: string } = {
@@ -20,17 +28,73 @@ const stimulusTypeMap: { [key in StimulusType]?: string } = {
     [StimulusType.NUMBER]: '数字',
     [StimulusType.TEXT]: '文字',
     [StimulusType.LETTER]: '字母',
+    [StimulusType.IMAGE]: '图片',
     [StimulusType.RANDOM]: '随机',
 };
 
-const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings, onBack, onClearAllProgress, onExport, onImportClick }) => {
+const colorDifficultyMap: Record<ColorDifficulty, string> = {
+    easy: '简单 (颜色差别大)',
+    medium: '中等',
+    hard: '困难 (颜色很接近)',
+};
+
+const gameModeMap: { [key in GameMode]: string } = {
+    [GameMode.SINGLE]: '经典 (单项)',
+    [GameMode.DUAL]: '双重 (位置 + 图案)',
+};
+
+const backupReasonLabels: Record<BackupReason, string> = {
+    daily: '每日',
+    import: '导入前',
+    clear: '清除前',
+    restore: '恢复前',
+    deleteProfile: '删除玩家前',
+};
+
+const formatBackupDate = (isoDate: string): string =>
+    new Date(isoDate).toLocaleString('zh-CN', { month: 'numeric', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+
+const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings, decks, onBack, onClearAllProgress, onExport, onImportClick, backups, onRestoreBackup, isParentMode, onRequestParentMode, onLockParentMode }) => {
   const handleNLevelChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSettings(s => ({ ...s, nLevel: parseInt(e.target.value, 10) }));
   };
 
+  const handleAdaptiveToggle = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSettings(s => ({ ...s, adaptiveNLevel: e.target.checked }));
+  };
+
+  const handleUpThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    setSettings(s => ({ ...s, adaptiveUpThreshold: value, adaptiveDownThreshold: Math.min(s.adaptiveDownThreshold, value - 5) }));
+  };
+
+  const handleDownThresholdChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const value = parseInt(e.target.value, 10);
+    setSettings(s => ({ ...s, adaptiveDownThreshold: value, adaptiveUpThreshold: Math.max(s.adaptiveUpThreshold, value + 5) }));
+  };
+
+  const handleLureRateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setSettings(s => ({ ...s, lureRate: parseInt(e.target.value, 10) }));
+  };
+
+  const handleModeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSettings(s => ({ ...s, mode: e.target.value as GameMode }));
+  };
+
   const handleStimulusTypeChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     setSettings(s => ({ ...s, stimulusType: e.target.value as StimulusType }));
   };
+
+  const handleColorDifficultyChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSettings(s => ({ ...s, colorDifficulty: e.target.value as ColorDifficulty }));
+  };
+
+  const handleDeckChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
+    setSettings(s => ({ ...s, deckId: e.target.value || null }));
+  };
+
+  // A deleted deck falls back to the stimulus type.
+  const selectedDeck = decks.find(d => d.id === settings.deckId);
   
     const handleSpeedChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     setSettings(s => ({ ...s, speed: parseInt(e.target.value, 10) }));
@@ -43,7 +107,7 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings,
   const handleClearProgressClick = () => {
     playSound('click');
     const isConfirmed = window.confirm(
-        "警告：您确定要清除所有的奖励（星星、宝石、奖杯、完美得分）和已解锁的成就吗？\n\n此操作无法撤销！"
+        "警告：您确定要清除所有的奖励（星星、宝石、奖杯、完美得分）和已解锁的成就吗？\n\n清除前会自动创建一个备份，可以在“备份与恢复”中找回。"
     );
     if (isConfirmed) {
         playSound('incorrect');
@@ -52,6 +116,16 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings,
     }
   };
 
+  const handleRestoreBackupClick = (backup: BackupSummary) => {
+    playSound('click');
+    const isConfirmed = window.confirm(
+        `确定要恢复 ${formatBackupDate(backup.createdAt)} 的备份吗？\n\n当前数据会先自动备份，应用将重新加载。`
+    );
+    if (isConfirmed) {
+        onRestoreBackup(backup.id);
+    }
+  };
+
   const handleBack = () => {
     playSound('click');
     onBack();
@@ -64,10 +138,32 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings,
           <ArrowLeftIcon />
         </button>
         <h2 className="font-display text-3xl text-purple-700">设置</h2>
+        {isParentMode && (
+          <button
+            onClick={() => { playSound('click'); onLockParentMode(); }}
+            className="ml-auto flex items-center gap-1 px-3 py-1 text-sm font-semibold text-purple-700 bg-purple-100 rounded-full hover:bg-purple-200 transition"
+          >
+            <LockClosedIcon className="w-4 h-4" />
+            退出家长模式
+          </button>
+        )}
       </div>
 
       <div className="flex-grow overflow-y-auto pr-2">
-        <div className="space-y-6">
+        {!isParentMode && (
+          <div className="flex items-center justify-between gap-4 p-4 mb-6 bg-amber-50 border-2 border-amber-200 rounded-lg">
+            <p className="text-sm text-amber-800">这些是当前的设置。修改设置和管理数据需要家长 PIN。</p>
+            <button
+              onClick={() => { playSound('click'); onRequestParentMode(); }}
+              className="flex-shrink-0 flex items-center gap-1 px-4 py-2 bg-amber-500 text-white font-bold rounded-lg shadow hover:bg-amber-600 transition active:scale-95"
+            >
+              <LockClosedIcon className="w-5 h-5" />
+              家长模式
+            </button>
+          </div>
+        )}
+        {/* A disabled fieldset makes every control inside it read-only for kids */}
+        <fieldset disabled={!isParentMode} className={`space-y-6 ${isParentMode ? '' : 'opacity-70'}`}>
           <div>
             <label htmlFor="n-level" className="block text-lg font-semibold text-gray-700 mb-2">
               难度 (N-Back 等级): <span className="font-bold text-blue-600">{settings.nLevel}</span>
@@ -82,21 +178,120 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings,
               className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500"
             />
           </div>
+          <div className="p-4 bg-blue-50 border-2 border-blue-200 rounded-lg">
+            <label htmlFor="adaptive-n-level" className="flex items-center gap-3 text-lg font-semibold text-gray-700 cursor-pointer">
+              <input
+                id="adaptive-n-level"
+                type="checkbox"
+                checked={settings.adaptiveNLevel}
+                onChange={handleAdaptiveToggle}
+                className="w-5 h-5 accent-blue-500"
+              />
+              自动调整难度
+            </label>
+            <p className="text-sm text-gray-500 mt-1">每局结束后根据正确率自动升高或降低 N-Back 等级。</p>
+            {settings.adaptiveNLevel && (
+              <div className="mt-4 space-y-4">
+                <div>
+                  <label htmlFor="adaptive-up" className="block font-semibold text-gray-700 mb-2">
+                    正确率达到 <span className="font-bold text-green-600">{settings.adaptiveUpThreshold}%</span> 时升级
+                  </label>
+                  <input
+                    id="adaptive-up"
+                    type="range"
+                    min="60"
+                    max="100"
+                    step="5"
+                    value={settings.adaptiveUpThreshold}
+                    onChange={handleUpThresholdChange}
+                    className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-green-500"
+                  />
+                </div>
+                <div>
+                  <label htmlFor="adaptive-down" className="block font-semibold text-gray-700 mb-2">
+                    正确率低于 <span className="font-bold text-red-600">{settings.adaptiveDownThreshold}%</span> 时降级
+                  </label>
+                  <input
+                    id="adaptive-down"
+                    type="range"
+                    min="40"
+                    max="95"
+                    step="5"
+                    value={settings.adaptiveDownThreshold}
+                    onChange={handleDownThresholdChange}
+                    className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-red-500"
+                  />
+                </div>
+              </div>
+            )}
+          </div>
           <div>
-            <label htmlFor="stimulus-type" className="block text-lg font-semibold text-gray-700 mb-2">
-              刺激类型
+            <label htmlFor="game-mode" className="block text-lg font-semibold text-gray-700 mb-2">
+              游戏模式
             </label>
             <select
-              id="stimulus-type"
-              value={settings.stimulusType}
-              onChange={handleStimulusTypeChange}
+              id="game-mode"
+              value={settings.mode ?? GameMode.SINGLE}
+              onChange={handleModeChange}
               className="w-full p-3 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition"
             >
-              {Object.values(StimulusType).map(type => (
-                <option key={type} value={type} className="capitalize">{stimulusTypeMap[type]}</option>
+              {Object.values(GameMode).map(mode => (
+                <option key={mode} value={mode}>{gameModeMap[mode]}</option>
               ))}
             </select>
           </div>
+          <div>
+            <label htmlFor="deck" className="block text-lg font-semibold text-gray-700 mb-2">
+              卡组
+            </label>
+            <select
+              id="deck"
+              value={selectedDeck?.id || ''}
+              onChange={handleDeckChange}
+              className="w-full p-3 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition"
+            >
+              <option value="">不使用卡组（按刺激类型）</option>
+              {decks.map(deck => (
+                <option key={deck.id} value={deck.id}>{deck.name} ({deck.stimulusIds.length})</option>
+              ))}
+            </select>
+            {decks.length === 0 && <p className="text-xs text-gray-500 mt-1">可以在资源库中选择资源来创建卡组。</p>}
+          </div>
+          {!selectedDeck && (
+            <div>
+              <label htmlFor="stimulus-type" className="block text-lg font-semibold text-gray-700 mb-2">
+                刺激类型
+              </label>
+              <select
+                id="stimulus-type"
+                value={settings.stimulusType}
+                onChange={handleStimulusTypeChange}
+                className="w-full p-3 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition"
+              >
+                {Object.values(StimulusType).map(type => (
+                  <option key={type} value={type} className="capitalize">{stimulusTypeMap[type]}</option>
+                ))}
+              </select>
+            </div>
+          )}
+          {(selectedDeck || settings.stimulusType === StimulusType.COLOR) && (
+            <div>
+              <label htmlFor="color-difficulty" className="block text-lg font-semibold text-gray-700 mb-2">
+                颜色难度
+              </label>
+              <select
+                id="color-difficulty"
+                value={settings.colorDifficulty}
+                onChange={handleColorDifficultyChange}
+                className="w-full p-3 bg-white border-2 border-gray-300 rounded-lg focus:ring-blue-500 focus:border-blue-500 transition"
+              >
+                {(Object.keys(colorDifficultyMap) as ColorDifficulty[]).map(difficulty => (
+                  <option key={difficulty} value={difficulty}>{colorDifficultyMap[difficulty]}</option>
+                ))}
+              </select>
+              {selectedDeck && <p className="text-xs text-gray-500 mt-1">只在卡组中全部是颜色时生效。</p>}
+            </div>
+          )}
           <div>
             <label htmlFor="game-length" className="block text-lg font-semibold text-gray-700 mb-2">
               游戏回合数: <span className="font-bold text-blue-600">{settings.gameLength}</span>
@@ -112,6 +307,22 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings,
               className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500"
             />
           </div>
+          <div>
+            <label htmlFor="lure-rate" className="block text-lg font-semibold text-gray-700 mb-2">
+              诱饵比例: <span className="font-bold text-blue-600">{settings.lureRate}%</span>
+            </label>
+            <input
+              id="lure-rate"
+              type="range"
+              min="0"
+              max="50"
+              step="10"
+              value={settings.lureRate}
+              onChange={handleLureRateChange}
+              className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500"
+            />
+            <p className="text-sm text-gray-500 mt-1">不匹配的回合中，有多少会故意重复 N-1 或 N+1 前的项目，以防止只凭熟悉感作答。</p>
+          </div>
           <div>
             <label htmlFor="speed" className="block text-lg font-semibold text-gray-700 mb-2">
               速度 (毫秒/项目): <span className="font-bold text-blue-600">{settings.speed}ms</span>
@@ -127,49 +338,90 @@ const SettingsScreen: React.FC<SettingsScreenProps> = ({ settings, setSettings,
               className="w-full h-3 bg-gray-200 rounded-lg appearance-none cursor-pointer range-lg accent-blue-500"
             />
           </div>
-        </div>
+        </fieldset>
         
         <div className="mt-8">
             <button
               onClick={handleBack}
               className="w-full py-3 bg-green-500 text-white font-bold text-lg rounded-lg shadow-md hover:bg-green-600 transition transform hover:scale-105 active:scale-100"
             >
-              保存并返回
+              {isParentMode ? '保存并返回' : '返回'}
             </button>
         </div>
 
-        <div className="my-6 py-6 border-t-2 border-dashed border-gray-300">
-            <h3 className="text-lg font-semibold text-gray-700 mb-2 text-center">数据管理</h3>
-            <p className="text-sm text-center text-gray-500 mb-4 px-2">
-                您的游戏进度保存在浏览器中。为防止因更换浏览器、清理缓存或应用更新导致数据丢失，建议您定期导出进度进行备份。
-            </p>
-            <div className="flex gap-4">
-                <button
-                    onClick={onExport}
-                    className="w-full flex items-center justify-center gap-2 py-2 bg-blue-500 text-white font-bold rounded-lg shadow-lg hover:bg-blue-600 transition active:scale-95"
-                >
-                    <DownloadIcon />
-                    导出进度
-                </button>
+        {isParentMode && (
+          <>
+            <div className="my-6 py-6 border-t-2 border-dashed border-gray-300">
+                <h3 className="text-lg font-semibold text-gray-700 mb-2 text-center">数据管理</h3>
+                <p className="text-sm text-center text-gray-500 mb-4 px-2">
+                    您的游戏进度保存在浏览器中。为防止因更换浏览器、清理缓存或应用更新导致数据丢失，建议您定期导出进度进行备份。
+                </p>
+                <div className="flex gap-4">
+                    <button
+                        onClick={onExport}
+                        className="w-full flex items-center justify-center gap-2 py-2 bg-blue-500 text-white font-bold rounded-lg shadow-lg hover:bg-blue-600 transition active:scale-95"
+                    >
+                        <DownloadIcon />
+                        导出进度
+                    </button>
+                    <button
+                        onClick={onImportClick}
+                        className="w-full flex items-center justify-center gap-2 py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95"
+                    >
+                        <UploadIcon />
+                        导入进度
+                    </button>
+                </div>
+            </div>
+
+            <div className="my-6 py-6 border-t-2 border-dashed border-gray-300">
+                <h3 className="text-lg font-semibold text-gray-700 mb-2 text-center">备份与恢复</h3>
+                <p className="text-sm text-center text-gray-500 mb-4 px-2">
+                    应用每天会自动备份一次，并在导入、清除或恢复数据之前再备份一次。
+                </p>
+                {backups.length > 0 ? (
+                    <ul className="space-y-2">
+                        {backups.map(backup => (
+                            <li key={backup.id} className="flex items-center gap-3 p-3 bg-gray-50 rounded-lg border border-gray-200">
+                                <div className="flex-grow text-sm">
+                                    <div className="font-semibold text-gray-800">
+                                        {formatBackupDate(backup.createdAt)}
+                                        <span className="ml-2 text-xs px-2 py-0.5 rounded-full bg-purple-100 text-purple-700">{backupReasonLabels[backup.reason]}</span>
+                                    </div>
+                                    <div className="text-gray-600">
+                                        {backup.players.map(p => `${p.avatar} ${p.name}`).join('、')}
+                                    </div>
+                                    <div className="text-gray-500">
+                                        ⭐{backup.rewards.stars} 💎{backup.rewards.gems} 🏆{backup.rewards.trophies} 💯{backup.rewards.perfectScores} · {backup.achievementCount} 个成就
+                                    </div>
+                                </div>
+                                <button
+                                    onClick={() => handleRestoreBackupClick(backup)}
+                                    className="flex-shrink-0 px-4 py-2 bg-blue-500 text-white font-bold rounded-lg shadow hover:bg-blue-600 transition active:scale-95"
+                                >
+                                    恢复
+                                </button>
+                            </li>
+                        ))}
+                    </ul>
+                ) : (
+                    <p className="text-sm text-center text-gray-400">还没有备份。</p>
+                )}
+            </div>
+
+            <AiSettingsSection />
+
+            <div className="mt-6 pt-6 border-t-2 border-dashed border-red-300">
+                <h3 className="text-lg font-semibold text-red-700 mb-2 text-center">危险区域</h3>
                 <button
-                    onClick={onImportClick}
-                    className="w-full flex items-center justify-center gap-2 py-2 bg-green-500 text-white font-bold rounded-lg shadow-lg hover:bg-green-600 transition active:scale-95"
+                    onClick={handleClearProgressClick}
+                    className="w-full py-2 bg-red-600 text-white font-bold rounded-lg shadow-lg hover:bg-red-700 transition active:scale-95"
                 >
-                    <UploadIcon />
-                    导入进度
+                    一键清除所有奖励和成就
                 </button>
             </div>
-        </div>
-
-        <div className="mt-6 pt-6 border-t-2 border-dashed border-red-300">
-            <h3 className="text-lg font-semibold text-red-700 mb-2 text-center">危险区域</h3>
-            <button
-                onClick={handleClearProgressClick}
-                className="w-full py-2 bg-red-600 text-white font-bold rounded-lg shadow-lg hover:bg-red-700 transition active:scale-95"
-            >
-                一键清除所有奖励和成就
-            </button>
-        </div>
+          </>
+        )}
       </div>
     </div>
   );
@@ -1,7 +1,7 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { GameSettings, Screen, StimulusType, PlayerRewards } from '../types';
+import { Deck, GameSettings, Screen, StimulusType, PlayerRewards, GameMode, TurnRecord, NLevelChange, PlayerProfile } from '../types';
 import { ALL_ACHIEVEMENTS } from '../achievements';
-import { PlayIcon, CogIcon, CollectionIcon, VolumeUpIcon, VolumeOffIcon, CheckIcon, XIcon, TrophyIcon } from './icons';
+import { PlayIcon, CogIcon, CollectionIcon, VolumeUpIcon, VolumeOffIcon, CheckIcon, XIcon, TrophyIcon, ChartBarIcon } from './icons';
 import { playSound, setSoundEnabled } from '../services/soundService';
 import { LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, Legend, ResponsiveContainer } from 'recharts';
 import { useAnimatedCounter } from '../hooks/useAnimatedCounter';
@@ -10,10 +10,14 @@ import { useAnimatedCounter } from '../hooks/useAnimatedCounter';
 interface StartScreenProps {
   onNavigate: (screen: Screen) => void;
   settings: GameSettings;
+  activeDeck: Deck | null; // The deck selected in the settings, if it still exists
   onStartGame: () => void;
-  lastGameHistory: Array<{ turn: number; score: number; result: 'correct' | 'incorrect' | 'neutral' }>;
+  lastGameHistory: TurnRecord[];
+  lastNLevelChange: NLevelChange | null;
   isSoundOn: boolean;
   setIsSoundOn: React.Dispatch<React.SetStateAction<boolean>>;
+  gamesPlayedCount: number;
+  activeProfile: PlayerProfile | null;
   unlockedAchievementsCount: number;
   totalAchievementsCount: number;
   newlyUnlocked: string[];
@@ -32,6 +36,7 @@ const stimulusTypeToChinese = (type: StimulusType) => {
       [StimulusType.NUMBER]: '数字',
       [StimulusType.TEXT]: '文字',
       [StimulusType.LETTER]: '字母',
+      [StimulusType.IMAGE]: '图片',
       [StimulusType.RANDOM]: '随机',
     };
     return map[type] || type;
@@ -162,11 +167,16 @@ const RewardPodium: React.FC<RewardPodiumProps> = ({ rewards, onRewardClick, isD
 };
 
 const StartScreen: React.FC<StartScreenProps> = ({ 
-  onNavigate, settings, onStartGame, lastGameHistory, isSoundOn, setIsSoundOn, 
-  unlockedAchievementsCount, totalAchievementsCount, newlyUnlocked, onDismissNotifications,
+  onNavigate, settings, activeDeck, onStartGame, lastGameHistory, lastNLevelChange, isSoundOn, setIsSoundOn, 
+  gamesPlayedCount, activeProfile, unlockedAchievementsCount, totalAchievementsCount, newlyUnlocked, onDismissNotifications,
   playerRewards, isProcessingRewards, onRewardClick, tierRefs
 }) => {
 
+  // Only show the arrow while nLevel is still the one the staircase picked.
+  const nLevelArrow = lastNLevelChange && lastNLevelChange.to === settings.nLevel
+    ? (lastNLevelChange.to > lastNLevelChange.from ? ' ↑' : ' ↓')
+    : '';
+
   const handleNavigation = (screen: Screen) => {
     playSound('click');
     onNavigate(screen);
@@ -201,7 +211,19 @@ const StartScreen: React.FC<StartScreenProps> = ({
         {isSoundOn ? <VolumeUpIcon className="w-8 h-8"/> : <VolumeOffIcon className="w-8 h-8"/>}
       </button>
 
-      <h2 className="font-display text-4xl md:text-6xl text-blue-600 mb-4">欢迎！</h2>
+      {activeProfile && (
+        <button
+          onClick={() => handleNavigation(Screen.PROFILES)}
+          disabled={isProcessingRewards}
+          className="absolute top-0 left-12 flex items-center gap-2 p-2 rounded-full hover:bg-gray-200 transition disabled:cursor-not-allowed"
+          title="切换玩家"
+        >
+          <span className="text-3xl">{activeProfile.avatar}</span>
+          <span className="font-semibold text-gray-700">{activeProfile.name}</span>
+        </button>
+      )}
+
+      <h2 className="font-display text-4xl md:text-6xl text-blue-600 mb-4">欢迎{activeProfile ? `，${activeProfile.name}` : ''}！</h2>
       <p className="text-lg md:text-xl text-gray-600 mb-8 max-w-md">
         准备好提升你的脑力了吗？选择一个选项开始吧。
       </p>
@@ -215,7 +237,7 @@ const StartScreen: React.FC<StartScreenProps> = ({
         >
           <PlayIcon className="w-12 h-12 mb-2" />
           <span className="font-bold text-xl">开始游戏</span>
-          <span className="text-sm opacity-80">N={settings.nLevel}</span>
+          <span className="text-sm opacity-80">N={settings.nLevel}{nLevelArrow}{settings.mode === GameMode.DUAL && ' · 双重'}</span>
         </button>
         <button
           onClick={() => handleNavigation(Screen.SETTINGS)}
@@ -224,7 +246,7 @@ const StartScreen: React.FC<StartScreenProps> = ({
         >
           <CogIcon className="w-12 h-12 mb-2" />
           <span className="font-bold text-xl">设置</span>
-          <span className="text-sm opacity-80 capitalize">{stimulusTypeToChinese(settings.stimulusType)}</span>
+          <span className="text-sm opacity-80 capitalize">{activeDeck ? `卡组：${activeDeck.name}` : stimulusTypeToChinese(settings.stimulusType)}</span>
         </button>
         <button
           onClick={() => handleNavigation(Screen.RESOURCES)}
@@ -247,8 +269,8 @@ const StartScreen: React.FC<StartScreenProps> = ({
         />
       </div>
       
-      {/* Achievements Button */}
-      <div className="w-full max-w-lg">
+      {/* Achievements & Progress Buttons */}
+      <div className="w-full max-w-lg grid grid-cols-2 gap-4">
         <button
           onClick={() => handleNavigation(Screen.ACHIEVEMENTS)}
           disabled={isProcessingRewards}
@@ -258,19 +280,30 @@ const StartScreen: React.FC<StartScreenProps> = ({
           <span className="font-bold text-xl">成就</span>
           <span className="text-sm opacity-80">{unlockedAchievementsCount} / {totalAchievementsCount}</span>
         </button>
+        <button
+          onClick={() => handleNavigation(Screen.PROGRESS)}
+          disabled={isProcessingRewards}
+          className="group w-full flex flex-col items-center justify-center p-6 bg-teal-500 text-white rounded-xl shadow-lg hover:bg-teal-600 transition-all transform hover:-translate-y-1 active:scale-95 disabled:opacity-60 disabled:cursor-not-allowed"
+        >
+          <ChartBarIcon className="w-12 h-12 mb-2" />
+          <span className="font-bold text-xl">进步</span>
+          <span className="text-sm opacity-80">{gamesPlayedCount} 局</span>
+        </button>
       </div>
 
       {lastGameHistory && lastGameHistory.length > 1 && (
         <div className="w-full max-w-lg mt-8 p-4 bg-white/80 rounded-xl shadow-lg">
           <h3 className="font-display text-2xl text-gray-700 mb-4 text-center">上次游戏表现</h3>
           <ResponsiveContainer width="100%" height={200}>
-            <LineChart data={lastGameHistory} margin={{ top: 10, right: 20, left: -10, bottom: 5 }}>
+            <LineChart data={lastGameHistory} margin={{ top: 10, right: 0, left: -10, bottom: 5 }}>
               <CartesianGrid strokeDasharray="3 3" />
               <XAxis dataKey="turn" name="回合" />
-              <YAxis name="得分" allowDecimals={false} />
+              <YAxis yAxisId="score" name="得分" allowDecimals={false} />
+              <YAxis yAxisId="rt" orientation="right" name="反应时" unit="ms" allowDecimals={false} />
               <Tooltip />
               <Legend />
-              <Line type="monotone" dataKey="score" name="得分" stroke="#8884d8" strokeWidth={2} activeDot={{ r: 8 }} dot={<CustomizedDot />} />
+              <Line yAxisId="score" type="monotone" dataKey="score" name="得分" stroke="#8884d8" strokeWidth={2} activeDot={{ r: 8 }} dot={<CustomizedDot />} />
+              <Line yAxisId="rt" type="monotone" dataKey="reactionTime" name="反应时 (ms)" stroke="#f59e0b" strokeWidth={2} strokeDasharray="4 2" dot={{ r: 3 }} connectNulls />
             </LineChart>
           </ResponsiveContainer>
         </div>
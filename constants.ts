@@ -1,14 +1,23 @@
-import { GameSettings, Stimulus, StimulusType } from './types';
-import { v4 as uuidv4 } from 'uuid';
+import { GameMode, GameSettings, Stimulus, StimulusType } from './types';
 
 export const DEFAULT_SETTINGS: GameSettings = {
   level: 1,
   nLevel: 1,
   stimulusType: StimulusType.EMOJI,
+  deckId: null,
+  colorDifficulty: 'medium',
   gameLength: 20,
   speed: 2500,
+  mode: GameMode.SINGLE,
+  adaptiveNLevel: false,
+  adaptiveUpThreshold: 90,
+  adaptiveDownThreshold: 75,
+  lureRate: 0,
 };
 
+// Dual mode shows each stimulus in one cell of a square grid of this size.
+export const POSITION_GRID_SIZE = 3;
+
 // --- START OF EXPANDED RESOURCES ---
 
 // Emojis (~700)
@@ -29,7 +38,7 @@ const emojiData = [
   // Clothing
   { value: '👓', name: '眼镜' }, { value: '🕶️', name: '墨镜' }, { value: '🥽', name: '护目镜' }, { value: '🥼', name: '白大褂' }, { value: '👔', name: '领带' }, { value: '👕', name: 'T恤' }, { value: '👖', name: '牛仔裤' }, { value: '🧣', name: '围巾' }, { value: '🧤', name: '手套' }, { value: '🧥', name: '外套' }, { value: '🧦', name: '袜子' }, { value: '👗', name: '连衣裙' }, { value: '👘', name: '和服' }, { value: '👙', name: '比基尼' }, { value: '👚', name: '女装' }, { value: '👛', name: '钱包' }, { value: '👜', name: '手提包' }, { value: '👝', name: '手拿包' }, { value: '🎒', name: '背包' }, { value: '👞', name: '男鞋' }, { value: '👟', name: '运动鞋' }, { value: '👠', name: '高跟鞋' }, { value: '👡', name: '凉鞋' }, { value: '👢', name: '靴子' }, { value: '👑', name: '王冠' }, { value: '👒', name: '女帽' }, { value: '🎩', name: '礼帽' }, { value: '🎓', name: '毕业帽' }, { value: '⛑️', name: '救援头盔' }, { value: '💄', name: '口红' }, { value: '💅', name: '指甲油' },
   // Symbols
-  { value: '❤️', name: '红心' }, { value: '🧡', name: '橙心' }, { value: '💛', name: '黄心' }, { value: '💚', name: '绿心' }, { value: '💙', name: '蓝心' }, { value: '💜', name: '紫心' }, { value: '🖤', name: '黑心' }, { value: '💔', name: '破碎的心' }, { value: '❣️', name: '心形感叹号' }, { value: '💕', name: '两颗心' }, { value: '💞', name: '旋转的心' }, { value: '💓', name: '跳动的心' }, { value: '💗', name: '成长的心' }, { value: '💖', name: '闪亮的心' }, { value: '💘', name: '丘比特之箭' }, { value: '💝', name: '带蝴蝶结的心' }, { value: '💟', name: '心形装饰' }, { value: '☮️', name: '和平符号' }, { value: '✝️', name: '拉丁十字' }, { value: '☪️', name: '星月' }, { value: '🕉️', name: '唵' }, { value: '☸️', name: '法轮' }, { value: '✡️', name: '大卫星' }, { value: '☯️', name: '阴阳' }, { value: '☦️', name: '东正教十字' }, { value: '🛐', name: '礼拜场所' }, { value: '⛎', name: '蛇夫座' }, { value: '♈', name: '白羊座' }, { value: '♉', name: '金牛座' }, { value: '♊', name: '双子座' }, { value: '♋', name: '巨蟹座' }, { value: '♌', name: '狮子座' }, { value: '♍', name: '处女座' }, { value: '♎', name: '天秤座' }, { value: '♏', name: '天蝎座' }, { value: '♐', name: '射手座' }, { value: '♑', name: '摩羯座' }, { value: '♒', name: '水瓶座' }, { value: '♓', name: '双鱼座' }, { value: '🆔', name: 'ID按钮' }, { value: '⚛️', name: '原子符号' }, { value: '🉑', name: '可' }, { value: '☢️', name: '放射性' }, { value: '☣️', name: '生物危害' }, { value: '📴', name: '手机关机' }, { value: '📳', name: '振动模式' }, { value: '🈶', name: '有' }, { value: '🈚', name: '无' }, { value: '🈸', name: '申' }, { value: '🈺', name: '营' }, { value: '🈷️', name: '月' }, { value: '✴️', name: '八角星' }, { value: '🆚', name: 'VS' }, { value: '💮', name: '白花' }, { value: '🉐', name: '得' }, { value: '㊙️', name: '秘' }, { value: '㊗️', name: '祝' }, { value: '🈴', name: '合' }, { value: '🈵', name: '满' }, { value: '🈹', name: '割' }, { value: '🈲', name: '禁' }, { value: '🅰️', name: 'A' }, { value: '🅱️', name: 'B' }, { value: '🆎', name: 'AB' }, { value: '🆑', name: 'CL' }, { value: '🅾️', name: 'O' }, { value: '🆘', name: 'SOS' }, { value: '⛔', name: '禁止' }, { value: '📛', name: '姓名牌' }, { value: '🚫', name: '禁止' }, { value: '❌', name: '交叉' }, { value: '⭕', name: '圆圈' }, { value: '💢', name: '愤怒' }, { value: '❓', name: '问号' }, { value: '❔', name: '白色问号' }, { value: '❕', name: '白色感叹号' }, { value: '❗', name: '感叹号' }, { value: '💯', name: '一百分' }, { value: '🔆', name: '高亮度' }, { value: '🔅', name: '低亮度' }, { value: '✔️', name: '勾' }, { value: '✅', name: '勾选框' }, { value: '☑️', name: '选中' }, { value: '🔘', name: '单选按钮' }, { value: '➕', name: '加' }, { value: '➖', name: '减' }, { value: '➗', name: '除' }, { value: '✖️', name: '乘' }, { value: '💲', name: '美元符号' }, { value: '🔚', name: '结束' }, { value: '🔙', name: '返回' }, { value: '🔛', name: 'ON' }, { value: '🔜', name: 'SOON' }, { value: '🔝', name: 'TOP' },
+  { value: '❤️', name: '红心' }, { value: '🧡', name: '橙心' }, { value: '💛', name: '黄心' }, { value: '💚', name: '绿心' }, { value: '💙', name: '蓝心' }, { value: '💜', name: '紫心' }, { value: '🖤', name: '黑心' }, { value: '💔', name: '破碎的心' }, { value: '❣️', name: '心形感叹号' }, { value: '💕', name: '两颗心' }, { value: '💞', name: '旋转的心' }, { value: '💓', name: '跳动的心' }, { value: '💗', name: '成长的心' }, { value: '💖', name: '闪亮的心' }, { value: '💘', name: '丘比特之箭' }, { value: '💝', name: '带蝴蝶结的心' }, { value: '💟', name: '心形装饰' }, { value: '☮️', name: '和平符号' }, { value: '✝️', name: '拉丁十字' }, { value: '☪️', name: '星月' }, { value: '🕉️', name: '唵' }, { value: '☸️', name: '法轮' }, { value: '✡️', name: '大卫星' }, { value: '☯️', name: '阴阳' }, { value: '☦️', name: '东正教十字' }, { value: '🛐', name: '礼拜场所' }, { value: '⛎', name: '蛇夫座' }, { value: '♈', name: '白羊座' }, { value: '♉', name: '金牛座' }, { value: '♊', name: '双子座' }, { value: '♋', name: '巨蟹座' }, { value: '♌', name: '狮子座' }, { value: '♍', name: '处女座' }, { value: '♎', name: '天秤座' }, { value: '♏', name: '天蝎座' }, { value: '♐', name: '射手座' }, { value: '♑', name: '摩羯座' }, { value: '♒', name: '水瓶座' }, { value: '♓', name: '双鱼座' }, { value: '🆔', name: 'ID按钮' }, { value: '⚛️', name: '原子符号' }, { value: '🉑', name: '可' }, { value: '☢️', name: '放射性' }, { value: '☣️', name: '生物危害' }, { value: '📴', name: '手机关机' }, { value: '📳', name: '振动模式' }, { value: '🈶', name: '有' }, { value: '🈚', name: '无' }, { value: '🈸', name: '申' }, { value: '🈺', name: '营' }, { value: '🈷️', name: '月' }, { value: '✴️', name: '八角星' }, { value: '🆚', name: 'VS' }, { value: '🉐', name: '得' }, { value: '㊙️', name: '秘' }, { value: '㊗️', name: '祝' }, { value: '🈴', name: '合' }, { value: '🈵', name: '满' }, { value: '🈹', name: '割' }, { value: '🈲', name: '禁' }, { value: '🅰️', name: 'A' }, { value: '🅱️', name: 'B' }, { value: '🆎', name: 'AB' }, { value: '🆑', name: 'CL' }, { value: '🅾️', name: 'O' }, { value: '🆘', name: 'SOS' }, { value: '⛔', name: '禁止' }, { value: '📛', name: '姓名牌' }, { value: '🚫', name: '禁止' }, { value: '❌', name: '交叉' }, { value: '⭕', name: '圆圈' }, { value: '💢', name: '愤怒' }, { value: '❓', name: '问号' }, { value: '❔', name: '白色问号' }, { value: '❕', name: '白色感叹号' }, { value: '❗', name: '感叹号' }, { value: '💯', name: '一百分' }, { value: '🔆', name: '高亮度' }, { value: '🔅', name: '低亮度' }, { value: '✔️', name: '勾' }, { value: '✅', name: '勾选框' }, { value: '☑️', name: '选中' }, { value: '🔘', name: '单选按钮' }, { value: '➕', name: '加' }, { value: '➖', name: '减' }, { value: '➗', name: '除' }, { value: '✖️', name: '乘' }, { value: '💲', name: '美元符号' }, { value: '🔚', name: '结束' }, { value: '🔙', name: '返回' }, { value: '🔛', name: 'ON' }, { value: '🔜', name: 'SOON' }, { value: '🔝', name: 'TOP' },
 ];
 
 // Colors (~200)
@@ -62,13 +71,21 @@ const letterData = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ'.split('').map(char => ({
     name: `字母 ${char}`,
 }));
 
+/**
+ * Builds the id of a built-in stimulus from its type and value, so it is the same on every load.
+ * @param type The stimulus type.
+ * @param value The stimulus value.
+ * @returns A deterministic id such as `builtin:EMOJI:🐶`.
+ */
+export const getBuiltInStimulusId = (type: StimulusType, value: string): string => `builtin:${type}:${value}`;
+
 // Map all data to the Stimulus format
-const emojis = emojiData.map(e => ({ id: uuidv4(), type: StimulusType.EMOJI, ...e }));
-const colors = colorData.map(c => ({ id: uuidv4(), type: StimulusType.COLOR, value: c.hex, name: c.name }));
-const shapes = shapeData.map(s => ({ id: uuidv4(), type: StimulusType.SHAPE, ...s }));
-const numbers = numberData.map(n => ({ id: uuidv4(), type: StimulusType.NUMBER, ...n }));
-const texts = textData.map(t => ({ id: uuidv4(), type: StimulusType.TEXT, ...t }));
-const letters = letterData.map(l => ({ id: uuidv4(), type: StimulusType.LETTER, ...l }));
+const emojis = emojiData.map(e => ({ id: getBuiltInStimulusId(StimulusType.EMOJI, e.value), type: StimulusType.EMOJI, ...e }));
+const colors = colorData.map(c => ({ id: getBuiltInStimulusId(StimulusType.COLOR, c.hex), type: StimulusType.COLOR, value: c.hex, name: c.name }));
+const shapes = shapeData.map(s => ({ id: getBuiltInStimulusId(StimulusType.SHAPE, s.value), type: StimulusType.SHAPE, ...s }));
+const numbers = numberData.map(n => ({ id: getBuiltInStimulusId(StimulusType.NUMBER, n.value), type: StimulusType.NUMBER, ...n }));
+const texts = textData.map(t => ({ id: getBuiltInStimulusId(StimulusType.TEXT, t.value), type: StimulusType.TEXT, ...t }));
+const letters = letterData.map(l => ({ id: getBuiltInStimulusId(StimulusType.LETTER, l.value), type: StimulusType.LETTER, ...l }));
 
 export const INITIAL_RESOURCES: Stimulus[] = [
   ...emojis,
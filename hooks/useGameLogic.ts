@@ -1,14 +1,33 @@
-import { useState, useEffect, useCallback, useMemo } from 'react';
-import { GameSettings, Stimulus, GameStats } from '../types';
+import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import { GameSettings, Stimulus, StimulusType, GameStats, GameMode, MatchStream, TurnResult, TurnRecord, StreamStats, TrialType, SignalCounts } from '../types';
+import { POSITION_GRID_SIZE } from '../constants';
+import { EMPTY_SIGNAL_COUNTS, addSignalCounts, calculateSignalDetection } from '../services/signalDetectionService';
+import { summarizeReactionTimes } from '../services/reactionTimeService';
+import { getMinPairwiseDistance, selectColorPool } from '../services/colorService';
 
 interface UseGameLogicProps {
     settings: GameSettings;
     stimuli: Stimulus[];
-    onResponse: (correct: boolean, comboCount: number) => void;
+    onResponse: (correct: boolean, comboCount: number, stream: MatchStream) => void;
     isPaused: boolean;
 }
 
-type TurnResult = 'correct' | 'incorrect' | 'neutral';
+type StreamRecord<T> = Record<MatchStream, T>;
+
+const createStreamRecord = <T>(value: T): StreamRecord<T> => ({ identity: value, position: value });
+
+const GRID_POSITIONS = Array.from({ length: POSITION_GRID_SIZE * POSITION_GRID_SIZE }, (_, i) => i);
+
+/**
+ * Combines the per-stream results of a turn into a single result for the chart.
+ * Any mistake makes the whole turn incorrect.
+ */
+const combineResults = (results: Partial<StreamRecord<TurnResult>>): TurnResult => {
+    const values = Object.values(results);
+    if (values.includes('incorrect')) return 'incorrect';
+    if (values.includes('correct')) return 'correct';
+    return 'neutral';
+};
 
 /**
  * Post-processes a shuffled array of turn types to break up long streaks.
@@ -62,20 +81,155 @@ const balanceTurnTypes = (types: boolean[], maxStreak: number): boolean[] => {
 };
 
 
+/**
+ * Combines the per-stream trial types of a turn. A target in any stream makes it a target turn.
+ */
+const combineTrialTypes = (types: Partial<StreamRecord<TrialType>>): TrialType => {
+    const values = Object.values(types);
+    if (values.includes('target')) return 'target';
+    if (values.includes('lure')) return 'lure';
+    return 'filler';
+};
+
+/**
+ * Generates a single n-back stream. The first nLevel items are unique, then ~33% of the
+ * remaining turns repeat the item from n turns back and the rest deliberately avoid it.
+ * Some of those non-match turns can be lures, which repeat the item from n-1 or n+1 turns back.
+ * Used for both the stimulus identity stream and the grid position stream.
+ * @param pool The items to draw from. Needs at least 2 distinct items.
+ * @param getKey Identifies an item; two items with the same key are a match.
+ * @param gameLength The total number of turns.
+ * @param nLevel The 'n' in n-back.
+ * @param lureRate The % of non-match turns that should be lures.
+ * @returns The generated stream.
+ */
+const generateStream = <T>(pool: T[], getKey: (item: T) => string, gameLength: number, nLevel: number, lureRate: number): T[] => {
+    const sequence: T[] = [];
+
+    // Helper to get a random item, excluding specific ones by key
+    const getRandomItem = (exclude: T[] = []): T => {
+        const excludeKeys = new Set(exclude.map(getKey));
+        const available = pool.filter(item => !excludeKeys.has(getKey(item)));
+
+        if (available.length === 0) {
+            // Fallback: if all unique items are excluded (very unlikely), just pick from the original list
+            return pool[Math.floor(Math.random() * pool.length)];
+        }
+
+        return available[Math.floor(Math.random() * available.length)];
+    };
+
+    // 1. Generate the initial part of the sequence (no matches possible)
+    for (let i = 0; i < nLevel; i++) {
+        // Ensure the first nLevel items are unique to avoid accidental 1-back matches etc.
+        const exclusions = sequence.slice(0, i);
+        sequence.push(getRandomItem(exclusions));
+    }
+
+    // 2. Determine the number and position of matches for the rest of the game
+    const remainingTurns = gameLength - nLevel;
+    if (remainingTurns <= 0) return sequence;
+
+    // Aim for ~33% matches, ensuring at least one if possible.
+    const numMatches = Math.max(1, Math.round(remainingTurns * 0.33));
+    const numNonMatches = remainingTurns - numMatches;
+
+    const turnTypes: boolean[] = [
+        ...Array(numMatches).fill(true), // true for match
+        ...Array(numNonMatches).fill(false), // false for non-match
+    ];
+
+    // Shuffle turn types for randomness (Fisher-Yates shuffle)
+    for (let i = turnTypes.length - 1; i > 0; i--) {
+        const j = Math.floor(Math.random() * (i + 1));
+        [turnTypes[i], turnTypes[j]] = [turnTypes[j], turnTypes[i]];
+    }
+
+    // Balance the shuffled sequence to avoid long streaks of matches or non-matches
+    const balancedTurnTypes = balanceTurnTypes(turnTypes, 3); // Max streak of 3
+
+    // 3. Generate the rest of the sequence based on balanced turn types
+    for (let i = 0; i < remainingTurns; i++) {
+        const turnIndex = i + nLevel;
+        const isMatchTurn = balancedTurnTypes[i];
+
+        const nBackItem = sequence[turnIndex - nLevel];
+
+        // Lure candidates: the n-1 and n+1 items, as long as they differ from the n-back item.
+        const lureCandidates = [nLevel - 1, nLevel + 1]
+            .filter(offset => offset >= 1 && turnIndex - offset >= 0)
+            .map(offset => sequence[turnIndex - offset])
+            .filter(item => getKey(item) !== getKey(nBackItem));
+
+        if (isMatchTurn) {
+            sequence.push(nBackItem);
+        } else if (lureCandidates.length > 0 && Math.random() * 100 < lureRate) {
+            sequence.push(lureCandidates[Math.floor(Math.random() * lureCandidates.length)]);
+        } else {
+            // It's a non-match turn. Pick an item that is NOT the n-back one.
+            // Also, for n-level=1, ensure it's not the same as the previous one
+            // to avoid creating an unintentional 1-back non-match.
+            const exclusions = [nBackItem];
+            if (nLevel === 1) {
+                exclusions.push(sequence[turnIndex - 1]);
+            }
+            sequence.push(getRandomItem(exclusions));
+        }
+    }
+
+    return sequence;
+};
+
+/**
+ * Tags every turn of a stream by what it actually contains.
+ * This also catches lures that a random filler pick happened to create.
+ * @param sequence The generated stream.
+ * @param getKey Identifies an item; two items with the same key are a match.
+ * @param nLevel The 'n' in n-back.
+ * @returns The trial type of each turn.
+ */
+const tagStream = <T>(sequence: T[], getKey: (item: T) => string, nLevel: number): TrialType[] => {
+    return sequence.map((item, turnIndex) => {
+        const keyAt = (offset: number) =>
+            offset >= 1 && turnIndex - offset >= 0 ? getKey(sequence[turnIndex - offset]) : null;
+        const key = getKey(item);
+
+        if (keyAt(nLevel) === key) return 'target';
+        if (keyAt(nLevel - 1) === key || keyAt(nLevel + 1) === key) return 'lure';
+        return 'filler';
+    });
+};
+
+
 export const useGameLogic = ({ settings, stimuli, onResponse, isPaused }: UseGameLogicProps) => {
+    const isDual = settings.mode === GameMode.DUAL;
+    const activeStreams = useMemo<MatchStream[]>(() => isDual ? ['position', 'identity'] : ['identity'], [isDual]);
+
     const [turn, setTurn] = useState(0);
     const [score, setScore] = useState(0);
     const [history, setHistory] = useState<(Stimulus | null)[]>([]);
+    const [positionHistory, setPositionHistory] = useState<number[]>([]);
     const [isGameOver, setIsGameOver] = useState(false);
-    const [userResponded, setUserResponded] = useState(false);
+    const [respondedStreams, setRespondedStreams] = useState<StreamRecord<boolean>>(() => createStreamRecord(false));
     const [showReviewHistory, setShowReviewHistory] = useState(false);
-    const [lastResult, setLastResult] = useState<TurnResult>('neutral');
-    const [scoreHistory, setScoreHistory] = useState<Array<{ turn: number; score: number; result: TurnResult }>>([{ turn: 0, score: 0, result: 'neutral' }]);
-
-    // Stats for achievements
-    const [currentStreak, setCurrentStreak] = useState(0);
-    const [maxStreak, setMaxStreak] = useState(0);
-    const [incorrectPresses, setIncorrectPresses] = useState(0);
+    const [lastResults, setLastResults] = useState<Partial<StreamRecord<TurnResult>>>({});
+    const [lastReactionTimes, setLastReactionTimes] = useState<Partial<StreamRecord<number>>>({});
+    const [scoreHistory, setScoreHistory] = useState<TurnRecord[]>([{ turn: 0, score: 0, result: 'neutral' }]);
+
+    // Results of the presses made during the current turn. Kept in a ref so that pressing
+    // one stream in dual mode doesn't restart the turn timer.
+    const turnResponsesRef = useRef<Partial<StreamRecord<TurnResult>>>({});
+    // High-resolution timestamp of when the current stimulus was shown (or the game resumed).
+    const stimulusShownAtRef = useRef(0);
+
+    // Stats for achievements, tracked separately for each stream
+    const [streamStreaks, setStreamStreaks] = useState<StreamRecord<number>>(() => createStreamRecord(0));
+    const [streamMaxStreaks, setStreamMaxStreaks] = useState<StreamRecord<number>>(() => createStreamRecord(0));
+    const [streamIncorrectPresses, setStreamIncorrectPresses] = useState<StreamRecord<number>>(() => createStreamRecord(0));
+    const [streamLureFalseAlarms, setStreamLureFalseAlarms] = useState<StreamRecord<number>>(() => createStreamRecord(0));
+    const [streamSignalCounts, setStreamSignalCounts] = useState<StreamRecord<SignalCounts>>(() => createStreamRecord(EMPTY_SIGNAL_COUNTS));
+    const [hitReactionTimes, setHitReactionTimes] = useState<number[]>([]);
+    const [falseAlarmReactionTimes, setFalseAlarmReactionTimes] = useState<number[]>([]);
     
     const basePoints = useMemo(() => 10 * Math.pow(2, settings.nLevel - 1), [settings.nLevel]);
     const penalty = useMemo(() => Math.ceil(basePoints / 2), [basePoints]);
@@ -84,196 +238,264 @@ export const useGameLogic = ({ settings, stimuli, onResponse, isPaused }: UseGam
     const gameSequence = useMemo(() => {
         // Need at least 2 unique stimuli for a good game, otherwise non-match logic fails.
         if (stimuli.length < 2) return [];
+        // All-color games draw from a smaller set picked for the color difficulty.
+        const pool = stimuli.every(s => s.type === StimulusType.COLOR)
+            ? selectColorPool(stimuli, settings.colorDifficulty)
+            : stimuli;
+        return generateStream(pool, s => s.id, settings.gameLength, settings.nLevel, settings.lureRate);
+    }, [settings.gameLength, settings.nLevel, settings.lureRate, settings.colorDifficulty, stimuli]);
+
+    // How hard the shown colors were to tell apart, for the session log.
+    const minColorDistance = useMemo(() => {
+        if (gameSequence.length === 0 || !gameSequence.every(s => s.type === StimulusType.COLOR)) return undefined;
+        const distance = getMinPairwiseDistance(gameSequence.map(s => s.value));
+        return distance === null ? undefined : Math.round(distance * 10) / 10;
+    }, [gameSequence]);
+
+    const positionSequence = useMemo(() => {
+        if (!isDual) return [];
+        return generateStream(GRID_POSITIONS, p => String(p), settings.gameLength, settings.nLevel, settings.lureRate);
+    }, [isDual, settings.gameLength, settings.nLevel, settings.lureRate]);
+
+    const trialTypes = useMemo<Partial<StreamRecord<TrialType[]>>>(() => ({
+        identity: tagStream<Stimulus>(gameSequence, s => s.id, settings.nLevel),
+        position: isDual ? tagStream(positionSequence, p => String(p), settings.nLevel) : undefined,
+    }), [gameSequence, positionSequence, isDual, settings.nLevel]);
 
-        const { gameLength, nLevel } = settings;
-        const sequence: Stimulus[] = [];
-
-        // Helper to get a random stimulus, excluding specific ones by ID
-        const getRandomStimulus = (exclude: (Stimulus | null)[] = []): Stimulus => {
-            const excludeIds = new Set(exclude.filter(s => s).map(s => s!.id));
-            const available = stimuli.filter(s => !excludeIds.has(s.id));
-
-            if (available.length === 0) {
-                // Fallback: if all unique stimuli are excluded (very unlikely), just pick from the original list
-                return stimuli[Math.floor(Math.random() * stimuli.length)];
-            }
-
-            return available[Math.floor(Math.random() * available.length)];
-        };
-
-        // 1. Generate the initial part of the sequence (no matches possible)
-        for (let i = 0; i < nLevel; i++) {
-            // Ensure the first nLevel items are unique to avoid accidental 1-back matches etc.
-            const exclusions = sequence.slice(0, i);
-            sequence.push(getRandomStimulus(exclusions));
-        }
+    const currentStimulus = turn < settings.gameLength ? gameSequence[turn] : null;
+    const currentPosition = isDual && turn < settings.gameLength ? positionSequence[turn] : null;
 
-        // 2. Determine the number and position of matches for the rest of the game
-        const remainingTurns = gameLength - nLevel;
-        if (remainingTurns <= 0) return sequence;
-        
-        // Aim for ~33% matches, ensuring at least one if possible.
-        const numMatches = Math.max(1, Math.round(remainingTurns * 0.33));
-        const numNonMatches = remainingTurns - numMatches;
-
-        const turnTypes: boolean[] = [
-            ...Array(numMatches).fill(true), // true for match
-            ...Array(numNonMatches).fill(false), // false for non-match
-        ];
-
-        // Shuffle turn types for randomness (Fisher-Yates shuffle)
-        for (let i = turnTypes.length - 1; i > 0; i--) {
-            const j = Math.floor(Math.random() * (i + 1));
-            [turnTypes[i], turnTypes[j]] = [turnTypes[j], turnTypes[i]];
+    const isActualMatch = useCallback((stream: MatchStream, turnIndex: number): boolean => {
+        if (turnIndex < settings.nLevel) return false;
+        if (stream === 'position') {
+            return positionSequence[turnIndex] === positionSequence[turnIndex - settings.nLevel];
         }
-        
-        // Balance the shuffled sequence to avoid long streaks of matches or non-matches
-        const balancedTurnTypes = balanceTurnTypes(turnTypes, 3); // Max streak of 3
-
-        // 3. Generate the rest of the sequence based on balanced turn types
-        for (let i = 0; i < remainingTurns; i++) {
-            const turnIndex = i + nLevel;
-            const isMatchTurn = balancedTurnTypes[i];
-            
-            const nBackStimulus = sequence[turnIndex - nLevel];
-
-            if (isMatchTurn) {
-                sequence.push(nBackStimulus);
-            } else {
-                // It's a non-match turn. Pick a stimulus that is NOT the n-back one.
-                // Also, for n-level=1, ensure it's not the same as the previous one
-                // to avoid creating an unintentional 1-back non-match.
-                const exclusions = [nBackStimulus];
-                if (nLevel === 1) {
-                    const previousStimulus = sequence[turnIndex - 1];
-                    exclusions.push(previousStimulus);
-                }
-                sequence.push(getRandomStimulus(exclusions));
-            }
-        }
-
-        return sequence;
-    }, [settings.gameLength, settings.nLevel, stimuli]);
-
-    const currentStimulus = turn < settings.gameLength ? gameSequence[turn] : null;
+        return gameSequence[turnIndex]?.id === gameSequence[turnIndex - settings.nLevel]?.id;
+    }, [settings.nLevel, gameSequence, positionSequence]);
+
+    const recordResult = useCallback((stream: MatchStream, result: TurnResult, reactionTime?: number) => {
+        turnResponsesRef.current[stream] = result;
+        setLastResults(prev => ({ ...prev, [stream]: result }));
+        setLastReactionTimes(prev => ({ ...prev, [stream]: reactionTime }));
+    }, []);
+
+    // Classifies a judged turn as hit, miss, false alarm or correct rejection.
+    const recordSignal = useCallback((stream: MatchStream, isMatch: boolean, pressedMatch: boolean) => {
+        const key: keyof SignalCounts = isMatch
+            ? (pressedMatch ? 'hits' : 'misses')
+            : (pressedMatch ? 'falseAlarms' : 'correctRejections');
+        setStreamSignalCounts(prev => ({ ...prev, [stream]: { ...prev[stream], [key]: prev[stream][key] + 1 } }));
+    }, []);
+
+    const registerMistake = useCallback((stream: MatchStream, reactionTime?: number) => {
+        setScore(s => Math.max(0, s - penalty));
+        setStreamStreaks(prev => ({ ...prev, [stream]: 0 }));
+        setStreamIncorrectPresses(prev => ({ ...prev, [stream]: prev[stream] + 1 }));
+        onResponse(false, 0, stream);
+        recordResult(stream, 'incorrect', reactionTime);
+    }, [penalty, onResponse, recordResult]);
 
     const advanceTurn = useCallback(() => {
         if (isGameOver) return;
 
         setHistory(h => [...h, gameSequence[turn]]);
+        if (isDual) {
+            setPositionHistory(h => [...h, positionSequence[turn]]);
+        }
         if (turn < settings.gameLength - 1) {
             setTurn(t => t + 1);
-            setUserResponded(false);
+            setRespondedStreams(createStreamRecord(false));
+            turnResponsesRef.current = {};
         } else {
             setIsGameOver(true);
         }
-    }, [turn, settings.gameLength, isGameOver, gameSequence]);
+    }, [turn, settings.gameLength, isGameOver, gameSequence, isDual, positionSequence]);
     
     useEffect(() => {
-        if (currentStreak > maxStreak) {
-            setMaxStreak(currentStreak);
+        setStreamMaxStreaks(prev => {
+            const changed = activeStreams.some(stream => streamStreaks[stream] > prev[stream]);
+            if (!changed) return prev;
+            const next = { ...prev };
+            activeStreams.forEach(stream => {
+                next[stream] = Math.max(prev[stream], streamStreaks[stream]);
+            });
+            return next;
+        });
+    }, [streamStreaks, activeStreams]);
+
+    useEffect(() => {
+        if (!isPaused && !isGameOver) {
+            stimulusShownAtRef.current = performance.now();
         }
-    }, [currentStreak, maxStreak]);
+    }, [turn, isPaused, isGameOver]);
+
+    // In single mode a response ends the turn early. In dual mode the turn always runs its
+    // full length so that both streams can be answered.
+    const turnLocked = !isDual && respondedStreams.identity;
 
     useEffect(() => {
         if (isPaused || isGameOver || stimuli.length === 0 || gameSequence.length === 0) {
             return;
         }
 
-        const actualMatch = turn >= settings.nLevel && gameSequence[turn]?.id === gameSequence[turn - settings.nLevel]?.id;
-
         const turnTimer = setTimeout(() => {
-            if (userResponded) return;
-            
-            // Timer runs out - this is an incorrect action only if there WAS a match
-            if (actualMatch) {
-                onResponse(false, 0);
-                setScore(s => Math.max(0, s - penalty));
-                setCurrentStreak(0);
-                setIncorrectPresses(p => p + 1);
-                setLastResult('incorrect');
-                setShowReviewHistory(true);
+            if (turnLocked) return;
+
+            // Timer runs out - an unanswered stream is incorrect only if there WAS a match
+            const responses = turnResponsesRef.current;
+            let hadMistake = activeStreams.some(stream => responses[stream] === 'incorrect');
+            activeStreams.forEach(stream => {
+                if (responses[stream]) return;
+                const isMatch = isActualMatch(stream, turn);
+                if (turn >= settings.nLevel) {
+                    recordSignal(stream, isMatch, false);
+                }
+                if (isMatch) {
+                    registerMistake(stream);
+                    hadMistake = true;
+                } else {
+                    // Correct "no-op": No match, and user correctly did nothing.
+                    // This no longer breaks the combo streak.
+                    recordResult(stream, 'neutral');
+                }
+            });
 
-                 setTimeout(() => {
+            if (hadMistake) {
+                setShowReviewHistory(true);
+                setTimeout(() => {
                     setShowReviewHistory(false);
                     advanceTurn();
                 }, 1000);
             } else {
-                 // Correct "no-op": No match, and user correctly did nothing.
-                 // This no longer breaks the combo streak.
-                 setLastResult('neutral');
-                 advanceTurn();
+                advanceTurn();
             }
 
         }, settings.speed);
 
         return () => clearTimeout(turnTimer);
 
-    }, [turn, isPaused, isGameOver, userResponded, stimuli.length, settings.speed, onResponse, advanceTurn, settings.nLevel, gameSequence, penalty]);
+    }, [turn, isPaused, isGameOver, turnLocked, stimuli.length, settings.speed, settings.nLevel, advanceTurn, gameSequence, activeStreams, isActualMatch, registerMistake, recordResult, recordSignal]);
 
-    const handleMatch = (userPressedMatch: boolean) => {
-        if (userResponded || turn < settings.nLevel || isPaused || gameSequence.length === 0) return;
+    const handleMatch = (userPressedMatch: boolean, stream: MatchStream = 'identity') => {
+        if (!activeStreams.includes(stream)) return;
+        if (respondedStreams[stream] || turn < settings.nLevel || isPaused || gameSequence.length === 0) return;
 
-        setUserResponded(true);
+        const reactionTime = Math.round(performance.now() - stimulusShownAtRef.current);
+        setRespondedStreams(prev => ({ ...prev, [stream]: true }));
 
-        const actualMatch = gameSequence[turn]?.id === gameSequence[turn - settings.nLevel]?.id;
+        const actualMatch = isActualMatch(stream, turn);
         const isCorrect = userPressedMatch === actualMatch;
+        recordSignal(stream, actualMatch, userPressedMatch);
+        if (userPressedMatch) {
+            const setReactionTimes = actualMatch ? setHitReactionTimes : setFalseAlarmReactionTimes;
+            setReactionTimes(prev => [...prev, reactionTime]);
+        }
 
         if (isCorrect) {
-            const newStreak = currentStreak + 1;
+            const newStreak = streamStreaks[stream] + 1;
             const comboBonus = (newStreak - 1) * (5 * settings.nLevel);
             setScore(s => s + basePoints + comboBonus);
-            setCurrentStreak(newStreak);
-            onResponse(true, newStreak);
-            setLastResult('correct');
-            setTimeout(advanceTurn, 500);
+            setStreamStreaks(prev => ({ ...prev, [stream]: newStreak }));
+            onResponse(true, newStreak, stream);
+            recordResult(stream, 'correct', reactionTime);
+            if (!isDual) {
+                setTimeout(advanceTurn, 500);
+            }
         } else {
-            setScore(s => Math.max(0, s - penalty));
-            setCurrentStreak(0);
-            setIncorrectPresses(p => p + 1);
-            onResponse(false, 0);
-            setLastResult('incorrect');
-            setShowReviewHistory(true);
-            setTimeout(() => {
-                setShowReviewHistory(false);
-                advanceTurn();
-            }, settings.speed);
+            registerMistake(stream, reactionTime);
+            if (userPressedMatch && trialTypes[stream]?.[turn] === 'lure') {
+                setStreamLureFalseAlarms(prev => ({ ...prev, [stream]: prev[stream] + 1 }));
+            }
+            if (!isDual) {
+                setShowReviewHistory(true);
+                setTimeout(() => {
+                    setShowReviewHistory(false);
+                    advanceTurn();
+                }, settings.speed);
+            }
         }
     };
     
     useEffect(() => {
+        // Entries are numbered like the displayed turn, so entry N describes sequence index N - 1.
+        // The final turn never advances `turn`, so it is recorded when the game ends.
+        const recordedTurn = isGameOver ? turn + 1 : turn;
         setScoreHistory(prev => {
             const newHistory = [...prev];
             const lastTurnInHistory = newHistory[newHistory.length - 1];
-            if (!lastTurnInHistory || lastTurnInHistory.turn !== turn) {
-                newHistory.push({ turn, score, result: lastResult });
+            if (!lastTurnInHistory || lastTurnInHistory.turn !== recordedTurn) {
+                const streamTrialTypes: Partial<StreamRecord<TrialType>> = {};
+                const streamReactionTimes: Partial<StreamRecord<number>> = {};
+                activeStreams.forEach(stream => {
+                    const trialType = trialTypes[stream]?.[recordedTurn - 1];
+                    if (trialType) streamTrialTypes[stream] = trialType;
+                    const reactionTime = lastReactionTimes[stream];
+                    if (reactionTime !== undefined) streamReactionTimes[stream] = reactionTime;
+                });
+                const reactionTimes = Object.values(streamReactionTimes);
+                const entry: TurnRecord = {
+                    turn: recordedTurn,
+                    score,
+                    result: combineResults(lastResults),
+                    trialType: combineTrialTypes(streamTrialTypes),
+                };
+                if (reactionTimes.length > 0) {
+                    entry.reactionTime = Math.min(...reactionTimes);
+                }
+                if (isDual) {
+                    entry.streamResults = { ...lastResults };
+                    entry.streamTrialTypes = streamTrialTypes;
+                    entry.streamReactionTimes = streamReactionTimes;
+                }
+                newHistory.push(entry);
             }
             return newHistory;
         });
-    }, [score, turn, lastResult]);
+    }, [score, turn, isGameOver, lastResults, lastReactionTimes, isDual, activeStreams, trialTypes]);
 
 
     const progress = ((turn + 1) / settings.gameLength) * 100;
 
+    const streams: Partial<StreamRecord<StreamStats>> = {};
+    activeStreams.forEach(stream => {
+        streams[stream] = {
+            maxStreak: streamMaxStreaks[stream],
+            incorrectPresses: streamIncorrectPresses[stream],
+            lureFalseAlarms: streamLureFalseAlarms[stream],
+            signalDetection: calculateSignalDetection(streamSignalCounts[stream]),
+        };
+    });
+
     const gameStats: GameStats = {
         score,
         settings,
-        maxStreak,
-        incorrectPresses,
-        gameCompleted: isGameOver
+        maxStreak: Math.max(...activeStreams.map(stream => streamMaxStreaks[stream])),
+        incorrectPresses: activeStreams.reduce((sum, stream) => sum + streamIncorrectPresses[stream], 0),
+        lureFalseAlarms: activeStreams.reduce((sum, stream) => sum + streamLureFalseAlarms[stream], 0),
+        signalDetection: calculateSignalDetection(
+            activeStreams.reduce((sum, stream) => addSignalCounts(sum, streamSignalCounts[stream]), EMPTY_SIGNAL_COUNTS)
+        ),
+        reactionTimes: summarizeReactionTimes(hitReactionTimes, falseAlarmReactionTimes),
+        gameCompleted: isGameOver,
+        minColorDistance,
+        streams,
     };
 
     return {
         currentStimulus,
+        currentPosition,
         score,
         turn: turn + 1,
         isGameOver,
         handleMatch,
         progress,
         history,
+        positionHistory,
         showReviewHistory,
         scoreHistory,
         gameStats,
-        currentStreak,
+        currentStreak: Math.max(...activeStreams.map(stream => streamStreaks[stream])),
+        streamStreaks,
+        respondedStreams,
     };
 };
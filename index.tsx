@@ -2,6 +2,7 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { loadState, AppState, QuarantinedSave } from './services/storageService';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
@@ -9,8 +10,19 @@ if (!rootElement) {
 }
 
 const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+const renderApp = (state?: AppState, quarantined: QuarantinedSave | null = null) => {
+  root.render(
+    <React.StrictMode>
+      <App loadedState={state} quarantined={quarantined} />
+    </React.StrictMode>
+  );
+};
+
+// Saved data is read from IndexedDB asynchronously, before the app first renders.
+// If storage can't be used at all, the app still starts with the default state.
+loadState()
+  .then(({ state, quarantined }) => renderApp(state, quarantined))
+  .catch(error => {
+    console.error("Could not load saved data:", error);
+    renderApp();
+  });
@@ -27,7 +27,10 @@ export const checkAchievements = (
         break;
       case 'streak':
         if (typeof achievement.goal === 'number') {
-          isUnlocked = stats.maxStreak >= achievement.goal;
+          const streak = achievement.stream
+            ? stats.streams[achievement.stream]?.maxStreak ?? 0
+            : stats.maxStreak;
+          isUnlocked = streak >= achievement.goal;
         }
         break;
       case 'levelComplete':
@@ -0,0 +1,52 @@
+import { GameStats, NLevelChange } from '../types';
+
+export const MIN_N_LEVEL = 1;
+export const MAX_N_LEVEL = 5;
+
+/**
+ * Calculates the accuracy of a game as the percentage of judged turns without a mistake.
+ * Only turns after the first nLevel can be judged, and in dual mode every turn is judged
+ * once per stream.
+ * @param stats The statistics from the completed game.
+ * @returns The accuracy as a percentage (0-100).
+ */
+export const calculateAccuracy = (stats: GameStats): number => {
+    const { settings, incorrectPresses } = stats;
+    const judgedTurns = Math.max(0, settings.gameLength - settings.nLevel);
+    const streamCount = Math.max(1, Object.keys(stats.streams).length);
+    const totalJudgements = judgedTurns * streamCount;
+
+    if (totalJudgements === 0) return 0;
+
+    const accuracy = ((totalJudgements - incorrectPresses) / totalJudgements) * 100;
+    return Math.max(0, Math.round(accuracy));
+};
+
+/**
+ * Applies the adaptive staircase rule to a finished game.
+ * Accuracy at or above the up threshold raises nLevel by one, below the down threshold lowers it by one.
+ * @param stats The statistics from the completed game.
+ * @returns The resulting level change, or null if nLevel stays the same or adaptive mode is off.
+ */
+export const getNLevelChange = (stats: GameStats): NLevelChange | null => {
+    const { settings } = stats;
+    if (!settings.adaptiveNLevel || !stats.gameCompleted) return null;
+
+    const accuracy = calculateAccuracy(stats);
+    let nextNLevel = settings.nLevel;
+
+    if (accuracy >= settings.adaptiveUpThreshold) {
+        nextNLevel = Math.min(MAX_N_LEVEL, settings.nLevel + 1);
+    } else if (accuracy < settings.adaptiveDownThreshold) {
+        nextNLevel = Math.max(MIN_N_LEVEL, settings.nLevel - 1);
+    }
+
+    if (nextNLevel === settings.nLevel) return null;
+
+    return {
+        date: new Date().toISOString(),
+        from: settings.nLevel,
+        to: nextNLevel,
+        accuracy,
+    };
+};
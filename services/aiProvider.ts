@@ -0,0 +1,125 @@
+// What every AI provider returns, and the prompts shared by the providers backed by a language model.
+import { AiRequestError, CompletePrompt, completeWithRetry } from './aiRequestService';
+
+export type ResourceItem = { name: string; type: string; value: string };
+
+// The stimulus types a provider can generate.
+export type AiItemType = 'EMOJI' | 'SHAPE' | 'TEXT' | 'COLOR';
+
+export type AgeBand = '3-5' | '6-8' | '9-12' | '13-16';
+
+export const AGE_BAND_LABELS: Record<AgeBand, string> = {
+    '3-5': '3-5 岁',
+    '6-8': '6-8 岁',
+    '9-12': '9-12 岁',
+    '13-16': '13-16 岁',
+};
+
+export const MIN_RESOURCE_COUNT = 5;
+export const MAX_RESOURCE_COUNT = 30;
+
+// What a parent or teacher asks for when fetching new resources.
+export interface ResourceRequest {
+    topic: string; // Any topic, e.g. "海洋生物" or "本周生词"
+    count: number;
+    types: AiItemType[];
+    ageBand: AgeBand;
+}
+
+export const DEFAULT_RESOURCE_REQUEST: ResourceRequest = {
+    topic: '动物',
+    count: 20,
+    types: ['EMOJI'],
+    ageBand: '6-8',
+};
+
+export interface AiProvider {
+    /**
+     * Generates new stimuli for a request.
+     * Throws an Error with a user-facing message if it fails; online providers throw an AiRequestError.
+     * @param request The topic, count, types and age band to generate for.
+     * @param signal Aborted when the user cancels the request.
+     * @returns The generated items, at most `request.count`.
+     */
+    generateResources: (request: ResourceRequest, signal?: AbortSignal) => Promise<ResourceItem[]>;
+}
+
+// Bump whenever the prompts change, so that answers cached for the old prompts are no longer used.
+export const PROMPT_VERSION = 2;
+
+// How the "value" of each type is described to the model.
+const ITEM_TYPE_RULES: Record<AiItemType, string> = {
+    EMOJI: `'EMOJI': "value" 是一个与项目相关的单个表情符号 (例如, "🦁")。`,
+    SHAPE: `'SHAPE': "value" 是一个单个的 Unicode 几何图形或符号 (例如, "▲" 或 "♪")。`,
+    TEXT: `'TEXT': "value" 是一个最多8个字的词语 (例如, "海豚" 或 "apple")，"name" 与 "value" 相同或是它的中文解释。`,
+    COLOR: `'COLOR': "value" 是一个 #RRGGBB 格式的十六进制颜色 (例如, "#1e90ff")，"name" 是这个颜色的中文名称。`,
+};
+
+const listTypes = (types: AiItemType[]) => types.map(type => `'${type}'`).join('、');
+
+const describeTypeRules = (types: AiItemType[]) =>
+    types.map(type => `    - ${ITEM_TYPE_RULES[type]}`).join('\n');
+
+const generatePrompt = (request: ResourceRequest) => `
+请为${AGE_BAND_LABELS[request.ageBand]}儿童的记忆游戏生成一个包含${request.count}个与“${request.topic}”相关的项目的有效JSON数组。
+内容的难度和用词要适合${AGE_BAND_LABELS[request.ageBand]}的儿童。
+数组中的每个对象都必须包含三个属性:
+1. "name": 一个字符串，包含项目的中文名称 (例如, "狮子")。
+2. "type": 一个字符串，只能是 ${listTypes(request.types)} 之一，选择最适合这个项目的类型。
+3. "value": 一个字符串，格式取决于 "type":
+${describeTypeRules(request.types)}
+
+不要在JSON数组之外包含任何文本、解释或markdown格式。
+输出应该是一个单一的、原始的JSON数组。
+`;
+
+const createAnalysisPrompt = (rawJson: string, request: ResourceRequest) => `
+你是一位为3-16岁儿童记忆游戏设计的内容审查专家。我会提供一个JSON数组，其中包含了主题为“${request.topic}”、面向${AGE_BAND_LABELS[request.ageBand]}儿童的游戏资源。
+你的任务是审查、修正并验证这个JSON数据。请严格遵守以下规则：
+
+1.  **儿童安全**: 确保所有项目（名称和内容）都绝对适合${AGE_BAND_LABELS[request.ageBand]}的儿童，没有任何不当、暴力或恐怖内容。移除任何不合适的项目。
+2.  **准确性**: 修正名称和内容不匹配的问题。例如，如果 "猫" 的表情是 "🐶"，请将其修正为 "🐱"；如果 "天蓝" 的颜色是 "#ff0000"，请修正为天蓝色。
+3.  **类型一致性**: "type" 只能是 ${listTypes(request.types)} 之一，"value" 必须符合对应类型的格式:
+${describeTypeRules(request.types)}
+    请修正任何不一致的地方，无法修正的项目请移除。
+4.  **格式要求**: 最终输出必须是一个格式完美的、纯粹的JSON数组，最多包含${request.count}个项目。不要包含任何额外的文字、解释、注释或markdown标记。
+
+以下是需要审查的JSON数据:
+${rawJson}
+`;
+
+/**
+ * Parses a model's answer as a JSON array of items.
+ * Models without a JSON mode sometimes wrap the array in a markdown code block, which is stripped.
+ * @param text The raw answer.
+ * @returns The parsed items.
+ */
+export const parseResourceItems = (text: string): ResourceItem[] => {
+    const start = text.indexOf('[');
+    const end = text.lastIndexOf(']');
+    if (start === -1 || end < start) {
+        throw new AiRequestError('malformed');
+    }
+    const items = JSON.parse(text.slice(start, end + 1));
+    if (!Array.isArray(items)) {
+        throw new AiRequestError('malformed');
+    }
+    return items;
+};
+
+/**
+ * Generates items with a language model, then has the model review and correct its own answer.
+ * Each call has a timeout and is retried on transient failures.
+ * @param complete Sends one prompt to the model.
+ * @param request The topic, count, types and age band to generate for.
+ * @param signal Aborted when the user cancels the request.
+ * @returns The reviewed items, at most `request.count`.
+ */
+export const generateAndReview = async (complete: CompletePrompt, request: ResourceRequest, signal?: AbortSignal): Promise<ResourceItem[]> => {
+    // Step 1: Generate initial resources
+    const rawJsonText = (await completeWithRetry(complete, generatePrompt(request), signal)).trim();
+
+    // Step 2: Analyze and correct the generated resources
+    const correctedJsonText = await completeWithRetry(complete, createAnalysisPrompt(rawJsonText, request), signal);
+    return parseResourceItems(correctedJsonText).slice(0, request.count);
+};
@@ -0,0 +1,131 @@
+// Timeouts, retries and error handling shared by the online AI providers.
+import { isObject } from './validationService';
+
+// Sends a prompt to a language model and resolves with its raw text answer.
+// The signal is aborted when the request times out or the user cancels it.
+export type CompletePrompt = (prompt: string, signal: AbortSignal) => Promise<string>;
+
+export type AiErrorKind = 'missingKey' | 'invalidKey' | 'quota' | 'network' | 'timeout' | 'unavailable' | 'malformed' | 'cancelled' | 'unknown';
+
+export const AI_ERROR_MESSAGES: Record<AiErrorKind, string> = {
+    missingKey: 'AI 服务的 API 密钥未配置。请在家长设置中填写。',
+    invalidKey: 'API 密钥无效或没有权限。请在家长设置中检查密钥。',
+    quota: 'AI 服务的额度已用完或请求过于频繁，请稍后再试。',
+    network: '无法连接到 AI 服务。请检查网络连接和接口地址。',
+    timeout: 'AI 服务响应超时，请稍后再试。',
+    unavailable: 'AI 服务暂时不可用，请稍后再试。',
+    malformed: 'AI 返回的内容格式不正确，请重试。',
+    cancelled: '已取消获取新资源。',
+    unknown: '从 AI 获取新资源失败，请重试。',
+};
+
+/**
+ * An AI request failure. The message is the user-facing text for its kind.
+ */
+export class AiRequestError extends Error {
+    readonly kind: AiErrorKind;
+
+    constructor(kind: AiErrorKind) {
+        super(AI_ERROR_MESSAGES[kind]);
+        this.name = 'AiRequestError';
+        this.kind = kind;
+    }
+}
+
+// A single model call may take a while for long lists, but should never hang forever.
+export const REQUEST_TIMEOUT_MS = 45000;
+const MAX_ATTEMPTS = 3;
+const BASE_RETRY_DELAY_MS = 1000;
+
+// Failures that may go away on their own; anything else is reported straight away.
+const TRANSIENT_ERROR_KINDS: AiErrorKind[] = ['network', 'timeout', 'unavailable', 'quota'];
+
+/**
+ * Maps an HTTP error status to an error kind.
+ * @param status The HTTP status code.
+ * @returns The error kind.
+ */
+export const getErrorKindForStatus = (status: number): AiErrorKind => {
+    if (status === 401 || status === 403) return 'invalidKey';
+    if (status === 408) return 'timeout';
+    if (status === 429) return 'quota';
+    if (status >= 500) return 'unavailable';
+    return 'unknown';
+};
+
+/**
+ * Turns any error thrown while talking to an AI service into an AiRequestError.
+ * @param error The error that was thrown.
+ * @returns The matching AiRequestError.
+ */
+export const toAiRequestError = (error: unknown): AiRequestError => {
+    if (error instanceof AiRequestError) return error;
+    // JSON.parse failures.
+    if (error instanceof SyntaxError) return new AiRequestError('malformed');
+    // API errors of the Gemini SDK carry the HTTP status.
+    if (isObject(error) && typeof error.status === 'number') return new AiRequestError(getErrorKindForStatus(error.status));
+    // fetch rejects with a TypeError when the server can't be reached.
+    if (error instanceof TypeError) return new AiRequestError('network');
+    return new AiRequestError('unknown');
+};
+
+// Rejects as soon as the signal is aborted, for clients that don't stop on their own.
+const rejectOnAbort = (signal: AbortSignal) => new Promise<never>((_, reject) => {
+    signal.addEventListener('abort', () => reject(new AiRequestError('cancelled')), { once: true });
+});
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) {
+        reject(new AiRequestError('cancelled'));
+        return;
+    }
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(new AiRequestError('cancelled'));
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+/**
+ * Sends one prompt with a timeout, retrying transient failures with exponential backoff.
+ * @param complete Sends one prompt to the model.
+ * @param prompt The prompt.
+ * @param signal Aborted when the user cancels the request.
+ * @returns The raw answer.
+ */
+export const completeWithRetry = async (complete: CompletePrompt, prompt: string, signal?: AbortSignal): Promise<string> => {
+    for (let attempt = 1; ; attempt++) {
+        if (signal?.aborted) throw new AiRequestError('cancelled');
+
+        const controller = new AbortController();
+        const onCancel = () => controller.abort();
+        signal?.addEventListener('abort', onCancel, { once: true });
+        let timedOut = false;
+        const timer = setTimeout(() => {
+            timedOut = true;
+            controller.abort();
+        }, REQUEST_TIMEOUT_MS);
+
+        try {
+            return await Promise.race([complete(prompt, controller.signal), rejectOnAbort(controller.signal)]);
+        } catch (error) {
+            const requestError = signal?.aborted
+                ? new AiRequestError('cancelled')
+                : timedOut ? new AiRequestError('timeout') : toAiRequestError(error);
+            if (attempt >= MAX_ATTEMPTS || !TRANSIENT_ERROR_KINDS.includes(requestError.kind)) {
+                throw requestError;
+            }
+            console.warn(`AI request failed (${requestError.kind}), retrying (attempt ${attempt + 1} of ${MAX_ATTEMPTS}):`, error);
+        } finally {
+            clearTimeout(timer);
+            signal?.removeEventListener('abort', onCancel);
+        }
+
+        // 1s, 2s, ... with some jitter so that several tabs don't retry in lockstep.
+        await wait(BASE_RETRY_DELAY_MS * 2 ** (attempt - 1) * (1 + Math.random() / 2), signal);
+    }
+};
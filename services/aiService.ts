@@ -0,0 +1,137 @@
+import { AiProvider, PROMPT_VERSION, ResourceItem, ResourceRequest } from './aiProvider';
+import { createGeminiProvider, DEFAULT_GEMINI_MODEL } from './geminiService';
+import { createOpenAiCompatibleProvider, DEFAULT_OPENAI_BASE_URL, DEFAULT_OPENAI_MODEL } from './openAiCompatibleService';
+import { createOfflineProvider } from './offlineResourceService';
+
+// Kept apart from the app state so that API keys never end up in exports or backups.
+const AI_CONFIG_KEY = 'n-back-ai-config';
+// Answers of the online providers, so that repeating a request doesn't cost quota.
+const AI_CACHE_KEY = 'n-back-ai-cache';
+const MAX_CACHE_ENTRIES = 20;
+
+export type AiProviderId = 'gemini' | 'openai' | 'offline';
+
+export interface AiConfig {
+    provider: AiProviderId;
+    gemini: { apiKey: string; model: string };
+    openai: { baseUrl: string; apiKey: string; model: string };
+}
+
+export const DEFAULT_AI_CONFIG: AiConfig = {
+    provider: 'offline',
+    gemini: { apiKey: '', model: DEFAULT_GEMINI_MODEL },
+    openai: { baseUrl: DEFAULT_OPENAI_BASE_URL, apiKey: '', model: DEFAULT_OPENAI_MODEL },
+};
+
+/**
+ * Reads the AI provider settings of this device.
+ * @returns The saved settings, with defaults for anything missing.
+ */
+export const loadAiConfig = (): AiConfig => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(AI_CONFIG_KEY) || 'null');
+        if (!saved) return DEFAULT_AI_CONFIG;
+        return {
+            provider: ['gemini', 'openai', 'offline'].includes(saved.provider) ? saved.provider : DEFAULT_AI_CONFIG.provider,
+            gemini: { ...DEFAULT_AI_CONFIG.gemini, ...saved.gemini },
+            openai: { ...DEFAULT_AI_CONFIG.openai, ...saved.openai },
+        };
+    } catch (error) {
+        console.warn("Could not read AI settings:", error);
+        return DEFAULT_AI_CONFIG;
+    }
+};
+
+/**
+ * Saves the AI provider settings of this device.
+ * @param config The settings to save.
+ */
+export const saveAiConfig = (config: AiConfig) => {
+    localStorage.setItem(AI_CONFIG_KEY, JSON.stringify(config));
+};
+
+/**
+ * Creates the provider selected in the settings.
+ * @param config The AI provider settings.
+ * @returns The provider.
+ */
+export const createAiProvider = (config: AiConfig): AiProvider => {
+    switch (config.provider) {
+        case 'gemini':
+            return createGeminiProvider(config.gemini.apiKey.trim(), config.gemini.model.trim());
+        case 'openai':
+            return createOpenAiCompatibleProvider(config.openai.baseUrl.trim(), config.openai.apiKey.trim(), config.openai.model.trim());
+        default:
+            return createOfflineProvider();
+    }
+};
+
+interface AiCacheEntry {
+    key: string;
+    items: ResourceItem[];
+    savedAt: string; // ISO date string
+}
+
+export interface FetchResourcesResult {
+    items: ResourceItem[];
+    fromCache: boolean;
+}
+
+// Identifies a request to a specific provider and model with the current prompts.
+const getCacheKey = (config: AiConfig, request: ResourceRequest): string => {
+    const providerKey = config.provider === 'gemini'
+        ? ['gemini', config.gemini.model.trim()]
+        : ['openai', config.openai.baseUrl.trim(), config.openai.model.trim()];
+    return JSON.stringify([...providerKey, PROMPT_VERSION, request.topic, request.count, [...request.types].sort(), request.ageBand]);
+};
+
+const readAiCache = (): AiCacheEntry[] => {
+    try {
+        const saved = JSON.parse(localStorage.getItem(AI_CACHE_KEY) || '[]');
+        return Array.isArray(saved) ? saved : [];
+    } catch (error) {
+        console.warn("Could not read the AI cache:", error);
+        return [];
+    }
+};
+
+// Newest entries first; the oldest are dropped beyond MAX_CACHE_ENTRIES.
+const writeAiCacheEntry = (key: string, items: ResourceItem[]) => {
+    const entries = [{ key, items, savedAt: new Date().toISOString() }, ...readAiCache().filter(entry => entry.key !== key)];
+    try {
+        localStorage.setItem(AI_CACHE_KEY, JSON.stringify(entries.slice(0, MAX_CACHE_ENTRIES)));
+    } catch (error) {
+        console.warn("Could not save the AI cache:", error);
+    }
+};
+
+/**
+ * Fetches new resources from the provider selected in the parent settings.
+ * Answers of the online providers are cached on this device, and a repeated request is served from the cache.
+ * Throws an Error with a user-facing message if it fails.
+ * @param request The topic, count, types and age band to generate for.
+ * @param options `signal` cancels the request; `useCache: false` asks the provider again even if an answer is cached.
+ * @returns The generated items, and whether they came from the cache.
+ */
+export const fetchNewResources = async (
+    request: ResourceRequest,
+    options: { signal?: AbortSignal; useCache?: boolean } = {},
+): Promise<FetchResourcesResult> => {
+    const config = loadAiConfig();
+    const provider = createAiProvider(config);
+    // The offline catalogue costs nothing, so there is nothing to save by caching it.
+    if (config.provider === 'offline') {
+        return { items: await provider.generateResources(request, options.signal), fromCache: false };
+    }
+
+    const cacheKey = getCacheKey(config, request);
+    if (options.useCache !== false) {
+        const cached = readAiCache().find(entry => entry.key === cacheKey);
+        if (cached && Array.isArray(cached.items)) {
+            return { items: cached.items, fromCache: true };
+        }
+    }
+    const items = await provider.generateResources(request, options.signal);
+    writeAiCacheEntry(cacheKey, items);
+    return { items, fromCache: false };
+};
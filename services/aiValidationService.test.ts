@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { containsBlockedTerm, screenAiItems } from './aiValidationService';
+
+describe('containsBlockedTerm', () => {
+    it.each(['skill', 'Essex', 'deadline', 'begun', 'Sussex', 'swine'])('does not block the harmless word "%s"', word => {
+        expect(containsBlockedTerm(word)).toBe(false);
+    });
+
+    it.each(['gun', 'Toy Gun', 'KILL', 'dead', 'knives', 'zombies', 'gambling'])('blocks "%s" as a whole word', word => {
+        expect(containsBlockedTerm(word)).toBe(true);
+    });
+
+    it.each(['手枪', '玩具手枪', '僵尸', '红酒杯', '鲜血', '杀人游戏', '死亡', '赌博'])('blocks "%s" by substring', word => {
+        expect(containsBlockedTerm(word)).toBe(true);
+    });
+
+    it.each(['血橙', '杀虫剂', '水枪', '死海'])('does not block the harmless name "%s"', word => {
+        expect(containsBlockedTerm(word)).toBe(false);
+    });
+});
+
+describe('screenAiItems', () => {
+    it('keeps harmless English words that contain a blocked term', () => {
+        const { accepted, dropped } = screenAiItems([
+            { name: 'skill', type: 'TEXT', value: 'skill' },
+            { name: 'Essex', type: 'TEXT', value: 'Essex' },
+            { name: 'deadline', type: 'TEXT', value: 'deadline' },
+            { name: 'gun', type: 'TEXT', value: 'gun' },
+        ], []);
+        expect(accepted.map(item => item.value)).toEqual(['skill', 'Essex', 'deadline']);
+        expect(dropped).toEqual({ unsafe: 1 });
+    });
+});
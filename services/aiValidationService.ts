@@ -0,0 +1,156 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Stimulus, StimulusType } from '../types';
+import { isObject } from './validationService';
+import { validateStimulus } from './resourceService';
+import { BLOCKED_EMOJI, BLOCKED_NAME_TERMS } from './safetyBlocklist';
+
+// The stimulus types an AI item may have by default.
+const AI_ITEM_TYPES: StimulusType[] = [StimulusType.EMOJI, StimulusType.SHAPE, StimulusType.TEXT, StimulusType.COLOR];
+
+const MAX_NAME_LENGTH = 20;
+
+export type AiItemDropReason = 'malformed' | 'invalidType' | 'notSingleEmoji' | 'invalidValue' | 'duplicate' | 'unsafe';
+
+export const AI_ITEM_DROP_REASON_LABELS: Record<AiItemDropReason, string> = {
+    malformed: '格式错误',
+    invalidType: '类型无效',
+    notSingleEmoji: '不是单个表情',
+    invalidValue: '内容格式错误',
+    duplicate: '与已有资源重复',
+    unsafe: '不适合儿童',
+};
+
+export interface AiItemScreeningResult {
+    accepted: Stimulus[];
+    dropped: Partial<Record<AiItemDropReason, number>>;
+}
+
+// Variation selectors only switch between text and emoji rendering, so they are ignored when comparing.
+const normalizeEmoji = (value: string): string => value.replace(/[\uFE0E\uFE0F]/g, '');
+
+// Compares values the way they look: emoji without variation selectors, colors and words case-insensitively.
+const normalizeValue = (type: StimulusType, value: string): string =>
+    type === StimulusType.EMOJI || type === StimulusType.SHAPE ? normalizeEmoji(value) : value.toLowerCase();
+
+const BLOCKED_EMOJI_SET = new Set(BLOCKED_EMOJI.map(normalizeEmoji));
+
+// Latin-script terms match whole words only, so that e.g. "skill" doesn't match "kill".
+// Chinese has no word boundaries, so CJK terms match anywhere.
+const isLatinTerm = (term: string): boolean => /^[a-z]+$/i.test(term);
+const BLOCKED_WORD_PATTERNS = BLOCKED_NAME_TERMS.filter(isLatinTerm).map(term => new RegExp(`\\b${term}s?\\b`, 'i'));
+const BLOCKED_CJK_TERMS = BLOCKED_NAME_TERMS.filter(term => !isLatinTerm(term));
+
+/**
+ * Checks a name or word against the blocked terms.
+ * @param text The text to check.
+ * @returns True if it contains a blocked term.
+ */
+export const containsBlockedTerm = (text: string): boolean =>
+    BLOCKED_CJK_TERMS.some(term => text.includes(term))
+    || BLOCKED_WORD_PATTERNS.some(pattern => pattern.test(text));
+
+const graphemeSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'grapheme' })
+    : null;
+
+// Matches one emoji, including skin tones and ZWJ sequences, for browsers without Intl.Segmenter.
+const SINGLE_EMOJI_PATTERN = /^\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?(\u200D\p{Extended_Pictographic}[\uFE0F\p{Emoji_Modifier}]?)*$|^\p{Regional_Indicator}{2}$/u;
+
+/**
+ * Checks whether a string is exactly one user-perceived character.
+ * @param value The string to check.
+ * @returns True if it is a single grapheme cluster.
+ */
+export const isSingleGrapheme = (value: string): boolean => {
+    if (!value || /^\s+$/.test(value)) return false;
+    if (graphemeSegmenter) {
+        return Array.from(graphemeSegmenter.segment(value)).length === 1;
+    }
+    return Array.from(value).length === 1 || SINGLE_EMOJI_PATTERN.test(value);
+};
+
+// Words are checked like names, since they are shown to the child as they are.
+const isUnsafe = (type: StimulusType, name: string, value: string): boolean => {
+    const texts = type === StimulusType.TEXT ? [name, value] : [name];
+    return BLOCKED_EMOJI_SET.has(normalizeEmoji(value))
+        || texts.some(containsBlockedTerm);
+};
+
+// Checks the value format of one type: a single grapheme for emoji and shapes, the editor's rules otherwise.
+const checkValue = (type: StimulusType, name: string, value: string): AiItemDropReason | null => {
+    if (type === StimulusType.EMOJI || type === StimulusType.SHAPE) {
+        return isSingleGrapheme(value) ? null : 'notSingleEmoji';
+    }
+    return validateStimulus({ id: '', type, name, value }, []) ? 'invalidValue' : null;
+};
+
+/**
+ * Validates AI-generated items locally before they are added to the resource list.
+ * Each item must have a name, an allowed type and a value in that type's format, must not repeat an
+ * existing stimulus of the same type by name or value, and must pass the child-safety blocklist.
+ * @param items The items returned by the AI provider.
+ * @param resources The current resource list.
+ * @param allowedTypes The types that were asked for.
+ * @returns The accepted items as new stimuli, and how many items were dropped for each reason.
+ */
+export const screenAiItems = (items: unknown[], resources: Stimulus[], allowedTypes: StimulusType[] = AI_ITEM_TYPES): AiItemScreeningResult => {
+    const accepted: Stimulus[] = [];
+    const dropped: Partial<Record<AiItemDropReason, number>> = {};
+    const drop = (reason: AiItemDropReason) => {
+        dropped[reason] = (dropped[reason] || 0) + 1;
+    };
+
+    // Keyed by type, so that e.g. the word "红色" and the color "红色" can both exist.
+    const existingNames = new Set(resources.filter(r => r.name).map(r => `${r.type}:${r.name}`));
+    const existingValues = new Set(resources.map(r => `${r.type}:${normalizeValue(r.type, r.value)}`));
+
+    items.forEach(item => {
+        if (!isObject(item) || typeof item.name !== 'string' || typeof item.value !== 'string') {
+            drop('malformed');
+            return;
+        }
+        const name = item.name.trim();
+        if (!name || name.length > MAX_NAME_LENGTH) {
+            drop('malformed');
+            return;
+        }
+        if (!allowedTypes.includes(item.type)) {
+            drop('invalidType');
+            return;
+        }
+        const type: StimulusType = item.type;
+        // Colors are stored in lower case, like the built-in ones.
+        const value = type === StimulusType.COLOR ? item.value.trim().toLowerCase() : item.value.trim();
+        const invalidReason = checkValue(type, name, value);
+        if (invalidReason) {
+            drop(invalidReason);
+            return;
+        }
+        // Checked before duplicates, so that blocked items are always reported as such.
+        if (isUnsafe(type, name, value)) {
+            drop('unsafe');
+            return;
+        }
+        const nameKey = `${type}:${name}`;
+        const valueKey = `${type}:${normalizeValue(type, value)}`;
+        if (existingNames.has(nameKey) || existingValues.has(valueKey)) {
+            drop('duplicate');
+            return;
+        }
+        existingNames.add(nameKey);
+        existingValues.add(valueKey);
+        accepted.push({ id: uuidv4(), type, name, value });
+    });
+
+    return { accepted, dropped };
+};
+
+/**
+ * Describes the dropped items for the user.
+ * @param dropped The counts from screenAiItems.
+ * @returns A summary such as "重复 3 个、不适合儿童 1 个", or an empty string if nothing was dropped.
+ */
+export const describeDroppedItems = (dropped: Partial<Record<AiItemDropReason, number>>): string =>
+    (Object.entries(dropped) as [AiItemDropReason, number][])
+        .map(([reason, count]) => `${AI_ITEM_DROP_REASON_LABELS[reason]} ${count} 个`)
+        .join('、');
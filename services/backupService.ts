@@ -0,0 +1,107 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PlayerRewards } from '../types';
+import { AppState, CURRENT_VERSION, StoredAppState, migrateState, toStoredState } from './storageService';
+import { deleteBackups, getAllBackups, getBackup, putBackup } from './indexedDbService';
+import { toDateKey } from './progressService';
+
+export type BackupReason = 'daily' | 'import' | 'clear' | 'restore' | 'deleteProfile';
+
+// Rolling limits: one snapshot a day for a week, plus the most recent snapshots taken before risky actions.
+const MAX_DAILY_BACKUPS = 7;
+const MAX_EVENT_BACKUPS = 10;
+
+export interface BackupSummary {
+    id: string;
+    createdAt: string;
+    reason: BackupReason;
+    version: string;
+    players: { name: string; avatar: string }[];
+    rewards: PlayerRewards; // Totals over all players
+    achievementCount: number; // Total over all players
+}
+
+export interface Backup extends BackupSummary {
+    state: StoredAppState;
+}
+
+const summarize = ({ state, ...summary }: Backup): BackupSummary => summary;
+
+const pruneBackups = async () => {
+    const backups = (await getAllBackups()).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    const daily = backups.filter(b => b.reason === 'daily');
+    const events = backups.filter(b => b.reason !== 'daily');
+    await deleteBackups([
+        ...daily.slice(MAX_DAILY_BACKUPS),
+        ...events.slice(MAX_EVENT_BACKUPS),
+    ].map(b => b.id));
+};
+
+/**
+ * Takes a snapshot of the app state. The snapshot is taken synchronously, so the state may change right after the call.
+ * @param state The state to back up.
+ * @param reason Why the snapshot is taken.
+ * @returns A promise resolving to true if the backup was stored.
+ */
+export const createBackup = (state: AppState, reason: BackupReason): Promise<boolean> => {
+    const backup: Backup = {
+        id: uuidv4(),
+        createdAt: new Date().toISOString(),
+        reason,
+        version: CURRENT_VERSION,
+        players: state.profiles.map(p => ({ name: p.name, avatar: p.avatar })),
+        rewards: state.profiles.reduce((totals, p) => ({
+            stars: totals.stars + p.playerRewards.stars,
+            gems: totals.gems + p.playerRewards.gems,
+            trophies: totals.trophies + p.playerRewards.trophies,
+            perfectScores: totals.perfectScores + p.playerRewards.perfectScores,
+        }), { stars: 0, gems: 0, trophies: 0, perfectScores: 0 }),
+        achievementCount: state.profiles.reduce((total, p) => total + Object.keys(p.unlockedAchievements).length, 0),
+        state: toStoredState(state),
+    };
+    return putBackup(backup)
+        .then(pruneBackups)
+        .then(() => true)
+        .catch(error => {
+            console.warn("Could not create backup:", error);
+            return false;
+        });
+};
+
+/**
+ * Lists the stored backups.
+ * @returns The backup summaries, newest first. Empty if backups can't be read.
+ */
+export const listBackups = async (): Promise<BackupSummary[]> => {
+    try {
+        const backups = await getAllBackups();
+        return backups.map(summarize).sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+        console.warn("Could not read backups:", error);
+        return [];
+    }
+};
+
+/**
+ * Takes the daily snapshot unless one was already taken today.
+ * @param state The current app state.
+ */
+export const createDailyBackupIfDue = async (state: AppState): Promise<void> => {
+    const today = toDateKey(new Date());
+    const backups = await listBackups();
+    if (!backups.some(b => b.reason === 'daily' && toDateKey(new Date(b.createdAt)) === today)) {
+        await createBackup(state, 'daily');
+    }
+};
+
+/**
+ * Reads a backup and brings it to the current state format.
+ * @param id The id of the backup.
+ * @returns The backed-up app state.
+ */
+export const loadBackup = async (id: string): Promise<AppState> => {
+    const backup = await getBackup(id);
+    if (!backup) {
+        throw new Error('找不到该备份。');
+    }
+    return migrateState({ version: backup.version, state: backup.state });
+};
@@ -0,0 +1,188 @@
+import { ColorDifficulty, Stimulus } from '../types';
+
+// The number of colors a single game draws from.
+export const COLOR_POOL_SIZE = 8;
+
+// Smallest CIEDE2000 difference allowed between two colors of the same game, per difficulty.
+// A difference of about 2.3 is the smallest most people can see at all.
+const MIN_DISTANCE: Record<ColorDifficulty, number> = {
+    easy: 0, // Easy spreads the colors as far apart as possible instead
+    medium: 15,
+    hard: 5,
+};
+
+interface Lab {
+    L: number;
+    a: number;
+    b: number;
+}
+
+// D65 reference white, matching sRGB.
+const WHITE = { X: 0.95047, Y: 1.0, Z: 1.08883 };
+
+const toLinear = (channel: number): number => {
+    const c = channel / 255;
+    return c <= 0.04045 ? c / 12.92 : Math.pow((c + 0.055) / 1.055, 2.4);
+};
+
+const labF = (t: number): number => (t > 216 / 24389 ? Math.cbrt(t) : (24389 / 27 * t + 16) / 116);
+
+/**
+ * Converts an sRGB hex color to CIELAB.
+ * @param hex A color in #RRGGBB form.
+ * @returns The color in Lab space.
+ */
+export const hexToLab = (hex: string): Lab => {
+    const r = toLinear(parseInt(hex.slice(1, 3), 16));
+    const g = toLinear(parseInt(hex.slice(3, 5), 16));
+    const b = toLinear(parseInt(hex.slice(5, 7), 16));
+
+    const fx = labF((r * 0.4124564 + g * 0.3575761 + b * 0.1804375) / WHITE.X);
+    const fy = labF((r * 0.2126729 + g * 0.7151522 + b * 0.0721750) / WHITE.Y);
+    const fz = labF((r * 0.0193339 + g * 0.1191920 + b * 0.9503041) / WHITE.Z);
+
+    return { L: 116 * fy - 16, a: 500 * (fx - fy), b: 200 * (fy - fz) };
+};
+
+const toDegrees = (radians: number): number => radians * 180 / Math.PI;
+const toRadians = (degrees: number): number => degrees * Math.PI / 180;
+
+/**
+ * Computes the CIEDE2000 color difference between two Lab colors.
+ * @param lab1 The first color.
+ * @param lab2 The second color.
+ * @returns The difference ΔE00; 0 for identical colors.
+ */
+export const ciede2000 = (lab1: Lab, lab2: Lab): number => {
+    const C1 = Math.hypot(lab1.a, lab1.b);
+    const C2 = Math.hypot(lab2.a, lab2.b);
+    const meanC = (C1 + C2) / 2;
+    const G = 0.5 * (1 - Math.sqrt(Math.pow(meanC, 7) / (Math.pow(meanC, 7) + Math.pow(25, 7))));
+
+    const a1 = (1 + G) * lab1.a;
+    const a2 = (1 + G) * lab2.a;
+    const C1p = Math.hypot(a1, lab1.b);
+    const C2p = Math.hypot(a2, lab2.b);
+    const hue = (b: number, a: number): number => {
+        if (a === 0 && b === 0) return 0;
+        const h = toDegrees(Math.atan2(b, a));
+        return h < 0 ? h + 360 : h;
+    };
+    const h1p = hue(lab1.b, a1);
+    const h2p = hue(lab2.b, a2);
+
+    const dLp = lab2.L - lab1.L;
+    const dCp = C2p - C1p;
+    let dhp = 0;
+    if (C1p * C2p !== 0) {
+        dhp = h2p - h1p;
+        if (dhp > 180) dhp -= 360;
+        else if (dhp < -180) dhp += 360;
+    }
+    const dHp = 2 * Math.sqrt(C1p * C2p) * Math.sin(toRadians(dhp / 2));
+
+    const meanLp = (lab1.L + lab2.L) / 2;
+    const meanCp = (C1p + C2p) / 2;
+    let meanHp = h1p + h2p;
+    if (C1p * C2p !== 0) {
+        if (Math.abs(h1p - h2p) <= 180) meanHp = (h1p + h2p) / 2;
+        else meanHp = h1p + h2p < 360 ? (h1p + h2p + 360) / 2 : (h1p + h2p - 360) / 2;
+    }
+
+    const T = 1
+        - 0.17 * Math.cos(toRadians(meanHp - 30))
+        + 0.24 * Math.cos(toRadians(2 * meanHp))
+        + 0.32 * Math.cos(toRadians(3 * meanHp + 6))
+        - 0.20 * Math.cos(toRadians(4 * meanHp - 63));
+    const dTheta = 30 * Math.exp(-Math.pow((meanHp - 275) / 25, 2));
+    const RC = 2 * Math.sqrt(Math.pow(meanCp, 7) / (Math.pow(meanCp, 7) + Math.pow(25, 7)));
+    const SL = 1 + (0.015 * Math.pow(meanLp - 50, 2)) / Math.sqrt(20 + Math.pow(meanLp - 50, 2));
+    const SC = 1 + 0.045 * meanCp;
+    const SH = 1 + 0.015 * meanCp * T;
+    const RT = -Math.sin(toRadians(2 * dTheta)) * RC;
+
+    return Math.sqrt(
+        Math.pow(dLp / SL, 2)
+        + Math.pow(dCp / SC, 2)
+        + Math.pow(dHp / SH, 2)
+        + RT * (dCp / SC) * (dHp / SH)
+    );
+};
+
+/**
+ * Computes the perceptual difference between two hex colors.
+ * @param hex1 The first color, in #RRGGBB form.
+ * @param hex2 The second color, in #RRGGBB form.
+ * @returns The CIEDE2000 difference.
+ */
+export const colorDistance = (hex1: string, hex2: string): number => ciede2000(hexToLab(hex1), hexToLab(hex2));
+
+/**
+ * Finds the two most similar colors in a set.
+ * @param hexColors The colors, in #RRGGBB form. Duplicates are ignored.
+ * @returns The smallest CIEDE2000 difference between two of the colors, or null for fewer than two colors.
+ */
+export const getMinPairwiseDistance = (hexColors: string[]): number | null => {
+    const labs = Array.from(new Set(hexColors.map(hex => hex.toUpperCase()))).map(hexToLab);
+    let min: number | null = null;
+    for (let i = 0; i < labs.length; i++) {
+        for (let j = i + 1; j < labs.length; j++) {
+            const distance = ciede2000(labs[i], labs[j]);
+            if (min === null || distance < min) min = distance;
+        }
+    }
+    return min;
+};
+
+/**
+ * Picks the colors a game draws from, according to the difficulty.
+ * 'easy' spreads the colors as far apart as possible, 'medium' picks random colors that are still
+ * clearly different, and 'hard' picks colors close to a random starting color.
+ * @param colors The playable COLOR stimuli.
+ * @param difficulty The configured color difficulty.
+ * @returns Up to COLOR_POOL_SIZE colors, or all of them if there aren't more.
+ */
+export const selectColorPool = (colors: Stimulus[], difficulty: ColorDifficulty): Stimulus[] => {
+    if (colors.length <= COLOR_POOL_SIZE) return colors;
+
+    const labs = new Map(colors.map(c => [c.id, hexToLab(c.value)]));
+    const distance = (x: Stimulus, y: Stimulus) => ciede2000(labs.get(x.id)!, labs.get(y.id)!);
+    const distanceToPool = (candidate: Stimulus, pool: Stimulus[]) => Math.min(...pool.map(c => distance(candidate, c)));
+
+    const seed = colors[Math.floor(Math.random() * colors.length)];
+    const pool = [seed];
+    let candidates = colors.filter(c => c.id !== seed.id);
+
+    if (difficulty === 'easy') {
+        // Farthest-point sampling: always add the color least like any already picked.
+        while (pool.length < COLOR_POOL_SIZE) {
+            let best = candidates[0];
+            let bestDistance = -1;
+            candidates.forEach(candidate => {
+                const d = distanceToPool(candidate, pool);
+                if (d > bestDistance) {
+                    best = candidate;
+                    bestDistance = d;
+                }
+            });
+            pool.push(best);
+            candidates = candidates.filter(c => c.id !== best.id);
+        }
+        return pool;
+    }
+
+    if (difficulty === 'hard') {
+        candidates.sort((x, y) => distance(seed, x) - distance(seed, y));
+    } else {
+        for (let i = candidates.length - 1; i > 0; i--) {
+            const j = Math.floor(Math.random() * (i + 1));
+            [candidates[i], candidates[j]] = [candidates[j], candidates[i]];
+        }
+    }
+    for (const candidate of candidates) {
+        if (pool.length >= COLOR_POOL_SIZE) break;
+        if (distanceToPool(candidate, pool) >= MIN_DISTANCE[difficulty]) pool.push(candidate);
+    }
+    // Too few colors were far enough apart; the game still needs some to choose from.
+    return pool.length >= 2 ? pool : colors.slice(0, COLOR_POOL_SIZE);
+};
@@ -0,0 +1,129 @@
+import { v4 as uuidv4 } from 'uuid';
+import { Deck, Stimulus } from '../types';
+import { isObject, RESOURCE_TYPES } from './validationService';
+import { validateStimulus } from './resourceService';
+
+// Marks a standalone deck file, so that progress exports can't be imported as decks by mistake.
+const DECK_FILE_FORMAT = 'n-back-deck';
+const DECK_FILE_VERSION = 1;
+
+// A deck file carries the stimuli themselves, as the receiving device may not have them.
+interface DeckFile {
+    format: typeof DECK_FILE_FORMAT;
+    version: number;
+    name: string;
+    stimuli: Stimulus[];
+}
+
+/**
+ * Creates a new deck.
+ * @param name The display name of the deck.
+ * @param stimulusIds The ids of the stimuli in the deck.
+ * @returns The new deck.
+ */
+export const createDeck = (name: string, stimulusIds: string[]): Deck => ({
+    id: uuidv4(),
+    name,
+    stimulusIds,
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * Finds the deck selected in the settings.
+ * @param decks The saved decks.
+ * @param deckId The selected deck id, if any.
+ * @returns The deck, or undefined if none is selected or it was deleted.
+ */
+export const findDeck = (decks: Deck[], deckId: string | null): Deck | undefined =>
+    deckId ? decks.find(d => d.id === deckId) : undefined;
+
+/**
+ * Looks up the stimuli of a deck.
+ * @param deck The deck.
+ * @param resources The full resource list.
+ * @returns The deck's stimuli that still exist, in resource list order.
+ */
+export const getDeckStimuli = (deck: Deck, resources: Stimulus[]): Stimulus[] => {
+    const ids = new Set(deck.stimulusIds);
+    return resources.filter(r => ids.has(r.id));
+};
+
+/**
+ * Serializes a deck and its stimuli to a standalone file.
+ * @param deck The deck to export.
+ * @param resources The full resource list.
+ * @returns The JSON text of the deck file.
+ */
+export const serializeDeck = (deck: Deck, resources: Stimulus[]): string => {
+    const file: DeckFile = {
+        format: DECK_FILE_FORMAT,
+        version: DECK_FILE_VERSION,
+        name: deck.name,
+        // The enabled flag is a per-device choice and isn't shared.
+        stimuli: getDeckStimuli(deck, resources).map(({ enabled, ...stimulus }) => stimulus),
+    };
+    return JSON.stringify(file, null, 2);
+};
+
+/**
+ * Parses and validates the text of a deck file.
+ * Throws an Error with a user-facing message if the file can't be used.
+ * @param text The raw file content.
+ * @returns The deck name and its stimuli.
+ */
+export const parseDeckFile = (text: string): { name: string; stimuli: Stimulus[] } => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('文件不是有效的 JSON。');
+    }
+    if (!isObject(data) || data.format !== DECK_FILE_FORMAT) {
+        throw new Error('这不是卡组文件。');
+    }
+    if (typeof data.version !== 'number' || data.version > DECK_FILE_VERSION) {
+        throw new Error('该卡组文件来自更新版本的应用，请先更新应用再导入。');
+    }
+    if (typeof data.name !== 'string' || !data.name.trim() || !Array.isArray(data.stimuli)) {
+        throw new Error('卡组文件缺少名称或资源。');
+    }
+    const stimuli = data.stimuli.filter((s: unknown): s is Stimulus =>
+        isObject(s) && typeof s.id === 'string' && typeof s.value === 'string' && RESOURCE_TYPES.includes(s.type)
+        && (s.name === undefined || typeof s.name === 'string')
+        && validateStimulus(s as Stimulus, []) === null
+    );
+    if (stimuli.length === 0) {
+        throw new Error('卡组文件中没有可用的资源。');
+    }
+    return {
+        name: data.name.trim(),
+        stimuli: stimuli.map(({ id, type, value, name }: Stimulus) => ({ id, type, value, name })),
+    };
+};
+
+/**
+ * Adds an imported deck to the resource list and the decks.
+ * Stimuli already present (by id, or by type and value) are reused; the others are added.
+ * @param file The parsed deck file.
+ * @param resources The current resource list.
+ * @returns The new deck and the resource list including any added stimuli.
+ */
+export const importDeck = (file: { name: string; stimuli: Stimulus[] }, resources: Stimulus[]): { deck: Deck; resources: Stimulus[] } => {
+    const byId = new Map(resources.map(r => [r.id, r]));
+    const byContent = new Map(resources.map(r => [`${r.type}|${r.value}`, r]));
+    const additions: Stimulus[] = [];
+    const stimulusIds = file.stimuli.map(stimulus => {
+        const key = `${stimulus.type}|${stimulus.value}`;
+        const sameId = byId.get(stimulus.id);
+        const existing = sameId && `${sameId.type}|${sameId.value}` === key ? sameId : byContent.get(key);
+        if (existing) return existing.id;
+        const added = { ...stimulus, id: uuidv4() };
+        additions.push(added);
+        byContent.set(key, added);
+        return added.id;
+    });
+    return {
+        deck: createDeck(file.name, Array.from(new Set(stimulusIds))),
+        resources: additions.length > 0 ? [...resources, ...additions] : resources,
+    };
+};
@@ -0,0 +1,59 @@
+// Turns photos picked by the user into small data URLs, so image stimuli are stored
+// alongside the rest of the app state and keep working offline.
+
+const MAX_IMAGE_DIMENSION = 512;
+const MAX_DATA_URL_LENGTH = 200 * 1024;
+const JPEG_QUALITIES = [0.85, 0.7, 0.55, 0.4];
+
+/**
+ * Checks whether a value is an image produced by `compressImage`.
+ * @param value The stimulus value to check.
+ * @returns True if the value is an inline image data URL.
+ */
+export const isImageDataUrl = (value: string): boolean => /^data:image\/(jpeg|png|webp);base64,[A-Za-z0-9+/=]+$/.test(value);
+
+const loadImage = (file: File): Promise<HTMLImageElement> =>
+    new Promise((resolve, reject) => {
+        const url = URL.createObjectURL(file);
+        const image = new Image();
+        image.onload = () => {
+            URL.revokeObjectURL(url);
+            resolve(image);
+        };
+        image.onerror = () => {
+            URL.revokeObjectURL(url);
+            reject(new Error('无法读取这张图片，请换一张试试。'));
+        };
+        image.src = url;
+    });
+
+/**
+ * Resizes and compresses an image file in the browser.
+ * The longer side is scaled down to at most 512px, and the JPEG quality is lowered until the result is small enough.
+ * @param file The image file picked by the user.
+ * @returns The compressed image as a JPEG data URL.
+ */
+export const compressImage = async (file: File): Promise<string> => {
+    if (!file.type.startsWith('image/')) {
+        throw new Error('请选择图片文件。');
+    }
+    const image = await loadImage(file);
+    const scale = Math.min(1, MAX_IMAGE_DIMENSION / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) {
+        throw new Error('当前浏览器不支持处理图片。');
+    }
+    // JPEG has no transparency, so transparent areas would otherwise turn black.
+    context.fillStyle = '#FFFFFF';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+
+    for (const quality of JPEG_QUALITIES) {
+        const dataUrl = canvas.toDataURL('image/jpeg', quality);
+        if (dataUrl.length <= MAX_DATA_URL_LENGTH) return dataUrl;
+    }
+    throw new Error('图片压缩后仍然太大，请换一张简单些的图片。');
+};
@@ -0,0 +1,205 @@
+import { Deck, GameSettings, NLevelChange, PlayerProfile, PlayerRewards, SessionLogEntry, Stimulus, UnlockedAchievements } from '../types';
+import { AppState, CURRENT_VERSION, getVersionStatus, migrateState } from './storageService';
+import { isObject, validateAppState } from './validationService';
+import { MAX_SESSION_LOG_ENTRIES } from './sessionLogService';
+
+export type ImportMode = 'replace' | 'merge';
+
+export interface ProfileImportPreview {
+    name: string;
+    avatar: string;
+    matchedName: string | null; // The existing profile it merges into, or null for a new player
+    currentRewards: PlayerRewards | null;
+    importedRewards: PlayerRewards;
+    currentAchievementCount: number;
+    importedAchievementCount: number;
+    mergedAchievementCount: number;
+    changedSettings: (keyof GameSettings)[];
+}
+
+export interface ImportPreview {
+    version: string;
+    profiles: ProfileImportPreview[];
+    unmatchedCurrentProfileNames: string[]; // Existing players that "replace" would remove
+    currentResourceCount: number;
+    importedResourceCount: number;
+    mergedResourceCount: number;
+    currentDeckCount: number;
+    importedDeckCount: number;
+    mergedDeckCount: number;
+}
+
+/**
+ * Parses and validates the text of an imported progress file, migrating it to the current version.
+ * Throws an Error with a user-facing message if the file can't be used.
+ * @param text The raw file content.
+ * @returns The imported state in the current AppState format.
+ */
+export const parseImportFile = (text: string): { version: string; state: AppState } => {
+    let data: any;
+    try {
+        data = JSON.parse(text);
+    } catch {
+        throw new Error('文件不是有效的 JSON。');
+    }
+    if (!isObject(data)) {
+        throw new Error('文件格式不正确。');
+    }
+
+    const status = getVersionStatus(data.version);
+    if (status === 'newer') {
+        throw new Error(`该文件来自更新版本的应用 (${data.version})，当前版本为 ${CURRENT_VERSION}。请先更新应用再导入。`);
+    }
+    if (status === 'unknown') {
+        throw new Error(`无法识别的数据版本: ${String(data.version)}。`);
+    }
+    if (status === 'supported' && !isObject(data.state)) {
+        throw new Error('文件缺少游戏数据。');
+    }
+
+    let state: AppState;
+    try {
+        state = migrateState(data);
+    } catch (error) {
+        console.error('Failed to migrate imported data:', error);
+        throw new Error('无法转换该文件中的数据。');
+    }
+
+    const errors = validateAppState(state);
+    if (errors.length > 0) {
+        throw new Error(`文件内容无效：${errors.slice(0, 3).join('；')}${errors.length > 3 ? '…' : ''}`);
+    }
+
+    return { version: data.version || '未标注版本', state };
+};
+
+// Imported profiles match an existing one by id, falling back to the same name.
+const findMatchingProfile = (profiles: PlayerProfile[], imported: PlayerProfile): PlayerProfile | undefined =>
+    profiles.find(p => p.id === imported.id) || profiles.find(p => p.name === imported.name);
+
+const mergeRewards = (a: PlayerRewards, b: PlayerRewards): PlayerRewards => ({
+    stars: Math.max(a.stars, b.stars),
+    gems: Math.max(a.gems, b.gems),
+    trophies: Math.max(a.trophies, b.trophies),
+    perfectScores: Math.max(a.perfectScores, b.perfectScores),
+});
+
+// Union of both records, keeping the earliest unlock date of each achievement.
+const mergeAchievements = (a: UnlockedAchievements, b: UnlockedAchievements): UnlockedAchievements => {
+    const merged = { ...a };
+    Object.entries(b).forEach(([id, date]) => {
+        if (!merged[id] || date < merged[id]) merged[id] = date;
+    });
+    return merged;
+};
+
+const mergeSessionLogs = (a: SessionLogEntry[], b: SessionLogEntry[]): SessionLogEntry[] => {
+    const byId = new Map<string, SessionLogEntry>();
+    [...a, ...b].forEach(entry => byId.set(entry.id, entry));
+    return Array.from(byId.values())
+        .sort((x, y) => x.timestamp.localeCompare(y.timestamp))
+        .slice(-MAX_SESSION_LOG_ENTRIES);
+};
+
+const mergeNLevelHistories = (a: NLevelChange[], b: NLevelChange[]): NLevelChange[] => {
+    const byKey = new Map<string, NLevelChange>();
+    [...a, ...b].forEach(change => byKey.set(`${change.date}|${change.from}|${change.to}`, change));
+    return Array.from(byKey.values()).sort((x, y) => x.date.localeCompare(y.date));
+};
+
+// Returns `a` itself when `b` adds nothing, so that unchanged resources keep their identity.
+const mergeResources = (a: Stimulus[], b: Stimulus[]): Stimulus[] => {
+    const existingIds = new Set(a.map(r => r.id));
+    const additions = b.filter(r => !existingIds.has(r.id));
+    return additions.length > 0 ? [...a, ...additions] : a;
+};
+
+// Decks match by id; an existing deck is kept as it is.
+const mergeDecks = (a: Deck[], b: Deck[]): Deck[] => {
+    const existingIds = new Set(a.map(d => d.id));
+    const additions = b.filter(d => !existingIds.has(d.id));
+    return additions.length > 0 ? [...a, ...additions] : a;
+};
+
+/**
+ * Describes what an import would change, for the confirmation dialog.
+ * @param current The state currently in use.
+ * @param imported The validated imported state.
+ * @param version The version the imported file was written with.
+ * @returns A summary of per-player, resource and deck changes.
+ */
+export const buildImportPreview = (current: AppState, imported: AppState, version: string): ImportPreview => {
+    const matchedIds = new Set<string>();
+
+    const profiles = imported.profiles.map((profile): ProfileImportPreview => {
+        const match = findMatchingProfile(current.profiles, profile);
+        if (match) matchedIds.add(match.id);
+        const changedSettings = match
+            ? (Object.keys(profile.settings) as (keyof GameSettings)[]).filter(key => profile.settings[key] !== match.settings[key])
+            : [];
+        return {
+            name: profile.name,
+            avatar: profile.avatar,
+            matchedName: match ? match.name : null,
+            currentRewards: match ? match.playerRewards : null,
+            importedRewards: profile.playerRewards,
+            currentAchievementCount: match ? Object.keys(match.unlockedAchievements).length : 0,
+            importedAchievementCount: Object.keys(profile.unlockedAchievements).length,
+            mergedAchievementCount: Object.keys(mergeAchievements(match?.unlockedAchievements || {}, profile.unlockedAchievements)).length,
+            changedSettings,
+        };
+    });
+
+    return {
+        version,
+        profiles,
+        unmatchedCurrentProfileNames: current.profiles.filter(p => !matchedIds.has(p.id)).map(p => p.name),
+        currentResourceCount: current.resources.length,
+        importedResourceCount: imported.resources.length,
+        mergedResourceCount: mergeResources(current.resources, imported.resources).length,
+        currentDeckCount: current.decks.length,
+        importedDeckCount: imported.decks.length,
+        mergedDeckCount: mergeDecks(current.decks, imported.decks).length,
+    };
+};
+
+/**
+ * Applies an imported state on top of the current one.
+ * 'replace' takes the imported data as-is. 'merge' keeps every existing player and setting, takes the
+ * maximum of each reward, combines achievements keeping the earliest unlock date, and takes the union
+ * of session logs, resources and decks. The device's parent PIN is always kept.
+ * @param current The state currently in use.
+ * @param imported The validated imported state.
+ * @param mode Whether to replace or merge.
+ * @returns The state to save.
+ */
+export const applyImport = (current: AppState, imported: AppState, mode: ImportMode): AppState => {
+    if (mode === 'replace') {
+        const activeProfileId = imported.profiles.some(p => p.id === imported.activeProfileId)
+            ? imported.activeProfileId
+            : imported.profiles[0].id;
+        return { ...imported, activeProfileId, parentPin: current.parentPin };
+    }
+
+    const profiles = current.profiles.map(p => ({ ...p }));
+    imported.profiles.forEach(importedProfile => {
+        const match = findMatchingProfile(profiles, importedProfile);
+        if (!match) {
+            profiles.push(importedProfile);
+            return;
+        }
+        Object.assign(match, {
+            playerRewards: mergeRewards(match.playerRewards, importedProfile.playerRewards),
+            unlockedAchievements: mergeAchievements(match.unlockedAchievements, importedProfile.unlockedAchievements),
+            nLevelHistory: mergeNLevelHistories(match.nLevelHistory, importedProfile.nLevelHistory),
+            sessionLog: mergeSessionLogs(match.sessionLog, importedProfile.sessionLog),
+        });
+    });
+
+    return {
+        ...current,
+        profiles,
+        resources: mergeResources(current.resources, imported.resources),
+        decks: mergeDecks(current.decks, imported.decks),
+    };
+};
@@ -0,0 +1,284 @@
+import { Deck, GameSettings, PlayerProfile, PlayerRewards, ResourceChanges, Stimulus } from '../types';
+import type { StoredAppState } from './storageService';
+import type { Backup } from './backupService';
+
+const DB_NAME = 'n-back-trainer';
+const DB_VERSION = 3;
+
+// Settings and rewards live apart from the rest of the profile so that frequent small
+// updates (e.g. every reward tick) only rewrite a few bytes. Both are keyed by profile id.
+const STORES = {
+    meta: 'meta',           // Single record with the version and device-wide values
+    profiles: 'profiles',   // Profile identity, achievements and history, keyed by `id`
+    settings: 'settings',
+    rewards: 'rewards',
+    resources: 'resources', // One record per changed stimulus, keyed by `id`
+    decks: 'decks',         // Keyed by `id`
+} as const;
+
+// Snapshots are kept apart from STORES so that rewriting the app state never touches them.
+const BACKUP_STORE = 'backups';
+
+const META_KEY = 'app';
+
+interface MetaRecord {
+    version: string;
+    revision: number; // Incremented by every write, to detect writes from other tabs
+    activeProfileId: string | null;
+    isSoundOn: boolean;
+    parentPin: StoredAppState['parentPin'];
+}
+
+// A user change to the resource catalogue. Before 2.2.0 this store held every stimulus instead.
+interface ResourceChangeRecord {
+    id: string;
+    change: 'added' | 'edited' | 'removed';
+    stimulus?: Stimulus;
+}
+
+type StoredProfile = Omit<PlayerProfile, 'settings' | 'playerRewards'>;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const requestToPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+    new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+
+const transactionDone = (transaction: IDBTransaction): Promise<void> =>
+    new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+        transaction.onabort = () => reject(transaction.error || new Error('Transaction aborted'));
+    });
+
+/**
+ * Checks whether IndexedDB can be used in this browser.
+ * @returns True if the `indexedDB` global is available.
+ */
+export const isIndexedDbAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+    if (!dbPromise) {
+        dbPromise = new Promise((resolve, reject) => {
+            const request = indexedDB.open(DB_NAME, DB_VERSION);
+            request.onupgradeneeded = (event) => {
+                const db = request.result;
+                if (event.oldVersion < 1) {
+                    db.createObjectStore(STORES.meta);
+                    db.createObjectStore(STORES.profiles, { keyPath: 'id' });
+                    db.createObjectStore(STORES.settings);
+                    db.createObjectStore(STORES.rewards);
+                    db.createObjectStore(STORES.resources, { keyPath: 'id' });
+                }
+                if (event.oldVersion < 2) {
+                    db.createObjectStore(BACKUP_STORE, { keyPath: 'id' });
+                }
+                if (event.oldVersion < 3) {
+                    db.createObjectStore(STORES.decks, { keyPath: 'id' });
+                }
+            };
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+            request.onblocked = () => reject(new Error('IndexedDB upgrade blocked by another tab'));
+        });
+        // Allow a later call to retry if opening failed.
+        dbPromise.catch(() => { dbPromise = null; });
+    }
+    return dbPromise;
+};
+
+const toResourceChangeRecords = ({ added, edited, removedIds }: ResourceChanges): ResourceChangeRecord[] => [
+    ...added.map((stimulus): ResourceChangeRecord => ({ id: stimulus.id, change: 'added', stimulus })),
+    ...edited.map((stimulus): ResourceChangeRecord => ({ id: stimulus.id, change: 'edited', stimulus })),
+    ...removedIds.map((id): ResourceChangeRecord => ({ id, change: 'removed' })),
+];
+
+const toResourceChanges = (records: ResourceChangeRecord[]): ResourceChanges => ({
+    added: records.filter(r => r.change === 'added').map(r => r.stimulus!),
+    edited: records.filter(r => r.change === 'edited').map(r => r.stimulus!),
+    removedIds: records.filter(r => r.change === 'removed').map(r => r.id),
+});
+
+const splitProfile = ({ settings, playerRewards, ...rest }: PlayerProfile): StoredProfile => rest;
+
+/**
+ * Reads the stored app state from IndexedDB.
+ * @returns The stored version and state in the shape of that version, or undefined if the database is empty.
+ */
+export const readAppState = async (): Promise<{ version: string; revision: number; state: any } | undefined> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(Object.values(STORES), 'readonly');
+    const [meta, profiles, settingsKeys, settings, rewardsKeys, rewards, resources, decks] = await Promise.all([
+        requestToPromise<MetaRecord | undefined>(transaction.objectStore(STORES.meta).get(META_KEY)),
+        requestToPromise<StoredProfile[]>(transaction.objectStore(STORES.profiles).getAll()),
+        requestToPromise(transaction.objectStore(STORES.settings).getAllKeys()),
+        requestToPromise<GameSettings[]>(transaction.objectStore(STORES.settings).getAll()),
+        requestToPromise(transaction.objectStore(STORES.rewards).getAllKeys()),
+        requestToPromise<PlayerRewards[]>(transaction.objectStore(STORES.rewards).getAll()),
+        requestToPromise<any[]>(transaction.objectStore(STORES.resources).getAll()),
+        requestToPromise<Deck[]>(transaction.objectStore(STORES.decks).getAll()),
+    ]);
+    if (!meta) return undefined;
+
+    const settingsById = new Map(settingsKeys.map((key, i) => [key as string, settings[i]]));
+    const rewardsById = new Map(rewardsKeys.map((key, i) => [key as string, rewards[i]]));
+
+    return {
+        version: meta.version,
+        revision: meta.revision ?? 0,
+        state: {
+            profiles: profiles
+                .sort((a, b) => a.createdAt.localeCompare(b.createdAt))
+                .map(profile => ({
+                    ...profile,
+                    settings: settingsById.get(profile.id)!,
+                    playerRewards: rewardsById.get(profile.id)!,
+                })),
+            activeProfileId: meta.activeProfileId,
+            ...(meta.version === '2.1.0'
+                ? { resources: resources as Stimulus[] }
+                : { resourceChanges: toResourceChanges(resources as ResourceChangeRecord[]) }),
+            decks: decks.sort((a, b) => a.createdAt.localeCompare(b.createdAt)),
+            isSoundOn: meta.isSoundOn,
+            parentPin: meta.parentPin,
+        },
+    };
+};
+
+/**
+ * Writes the app state to IndexedDB in a single transaction.
+ * When the previously written state is given, only the records that changed are written.
+ * @param version The data version to record.
+ * @param state The state to write.
+ * @param previous The state from the last successful write, or null to rewrite everything.
+ * @param revision The revision to record for this write.
+ * @param expectedRevision The revision the stored data must still have, or null to write regardless.
+ * @returns False, without writing anything, if the stored revision didn't match.
+ */
+export const writeAppState = async (
+    version: string,
+    state: StoredAppState,
+    previous: StoredAppState | null,
+    revision: number,
+    expectedRevision: number | null
+): Promise<boolean> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(Object.values(STORES), 'readwrite');
+    const done = transactionDone(transaction);
+    const metaStore = transaction.objectStore(STORES.meta);
+
+    // Checked inside the transaction, so no other tab can write in between.
+    if (expectedRevision !== null) {
+        const storedMeta = await requestToPromise<MetaRecord | undefined>(metaStore.get(META_KEY));
+        if ((storedMeta?.revision ?? 0) !== expectedRevision) {
+            transaction.abort();
+            await done.catch(() => undefined);
+            return false;
+        }
+    }
+
+    const profileStore = transaction.objectStore(STORES.profiles);
+    const settingsStore = transaction.objectStore(STORES.settings);
+    const rewardsStore = transaction.objectStore(STORES.rewards);
+    const resourceStore = transaction.objectStore(STORES.resources);
+    const deckStore = transaction.objectStore(STORES.decks);
+
+    if (!previous) {
+        Object.values(STORES).forEach(name => transaction.objectStore(name).clear());
+    }
+
+    const meta: MetaRecord = {
+        version,
+        revision,
+        activeProfileId: state.activeProfileId,
+        isSoundOn: state.isSoundOn,
+        parentPin: state.parentPin,
+    };
+    metaStore.put(meta, META_KEY);
+
+    const previousProfiles = new Map((previous?.profiles || []).map(p => [p.id, p]));
+    state.profiles.forEach(profile => {
+        const old = previousProfiles.get(profile.id);
+        previousProfiles.delete(profile.id);
+        if (!old || old.settings !== profile.settings) settingsStore.put(profile.settings, profile.id);
+        if (!old || old.playerRewards !== profile.playerRewards) rewardsStore.put(profile.playerRewards, profile.id);
+        if (!old || old.name !== profile.name || old.avatar !== profile.avatar
+            || old.unlockedAchievements !== profile.unlockedAchievements
+            || old.nLevelHistory !== profile.nLevelHistory
+            || old.sessionLog !== profile.sessionLog) {
+            profileStore.put(splitProfile(profile));
+        }
+    });
+    // Whatever is left over was deleted since the last write.
+    previousProfiles.forEach((_, id) => {
+        profileStore.delete(id);
+        settingsStore.delete(id);
+        rewardsStore.delete(id);
+    });
+
+    if (!previous || previous.resourceChanges !== state.resourceChanges) {
+        if (previous) resourceStore.clear();
+        toResourceChangeRecords(state.resourceChanges).forEach(record => resourceStore.put(record));
+    }
+
+    if (!previous || previous.decks !== state.decks) {
+        const previousDecks = new Set(previous?.decks || []);
+        const deckIds = new Set(state.decks.map(deck => deck.id));
+        state.decks.forEach(deck => {
+            if (!previousDecks.has(deck)) deckStore.put(deck);
+        });
+        previous?.decks.forEach(deck => {
+            if (!deckIds.has(deck.id)) deckStore.delete(deck.id);
+        });
+    }
+
+    await done;
+    return true;
+};
+
+/**
+ * Stores a backup snapshot.
+ * @param backup The backup to store.
+ */
+export const putBackup = async (backup: Backup): Promise<void> => {
+    const db = await openDatabase();
+    const transaction = db.transaction(BACKUP_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    transaction.objectStore(BACKUP_STORE).put(backup);
+    await done;
+};
+
+/**
+ * Reads every stored backup snapshot.
+ * @returns The backups, in no particular order.
+ */
+export const getAllBackups = async (): Promise<Backup[]> => {
+    const db = await openDatabase();
+    return requestToPromise<Backup[]>(db.transaction(BACKUP_STORE, 'readonly').objectStore(BACKUP_STORE).getAll());
+};
+
+/**
+ * Reads one backup snapshot.
+ * @param id The id of the backup.
+ * @returns The backup, or undefined if it doesn't exist.
+ */
+export const getBackup = async (id: string): Promise<Backup | undefined> => {
+    const db = await openDatabase();
+    return requestToPromise<Backup | undefined>(db.transaction(BACKUP_STORE, 'readonly').objectStore(BACKUP_STORE).get(id));
+};
+
+/**
+ * Deletes backup snapshots.
+ * @param ids The ids of the backups to delete.
+ */
+export const deleteBackups = async (ids: string[]): Promise<void> => {
+    if (ids.length === 0) return;
+    const db = await openDatabase();
+    const transaction = db.transaction(BACKUP_STORE, 'readwrite');
+    const done = transactionDone(transaction);
+    const store = transaction.objectStore(BACKUP_STORE);
+    ids.forEach(id => store.delete(id));
+    await done;
+};
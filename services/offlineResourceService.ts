@@ -0,0 +1,78 @@
+import { AiItemType, AiProvider, ResourceItem } from './aiProvider';
+
+/*
+ * =============================================================================
+ *  开发者提示: 查找并添加新资源
+ * =============================================================================
+ * 本文件是离线模式下使用的内置资源目录。如需手动扩展这里的目录或 `constants.ts`
+ * 文件中的 `INITIAL_RESOURCES`，以下是一些有用的网站和方法。
+ *
+ * 表情符号 (Emojis):
+ * - Emojipedia: https://emojipedia.org/ - 所有表情符号的权威来源。
+ * - Full Emoji List: https://unicode.org/emoji/charts/full-emoji-list.html
+ *
+ * 颜色 (Colors):
+ * - 中国色: http://zhongguose.com/ - 一个很好的中国传统颜色资源站。
+ * - Coolors: https://coolors.co/ - 强大的调色板生成器。
+ * - HTML Color Codes: https://htmlcolorcodes.com/
+ *
+ * 形状 (Shapes - Unicode):
+ * - Unicode 几何图形: https://www.w3.org/TR/xml-entity-names/025.html
+ * - 杂项符号: https://www.compart.com/en/unicode/block/U+2600
+ *
+ * 图标 (Icons - 可作为形状或图片的替代品):
+ * - Font Awesome: https://fontawesome.com/
+ * - Google Material Icons: https://fonts.google.com/icons
+ *
+ * 图片 (Images):
+ * - Unsplash / Pexels: 用于高质量、免费使用的照片。
+ * - The Noun Project: https://thenounproject.com/ - 提供各种事物的简洁图标。
+ * - 图片类型的资源由家长在资源库中从本地上传，在浏览器中缩小压缩后保存，不使用远程 URL。
+ *
+ * 添加资源时，请确保内容适合儿童年龄段 (3-16岁)。
+ * =============================================================================
+ */
+
+// Items bundled with the app, by topic. Used when no online AI provider is configured.
+const OFFLINE_CATALOGUE: Record<string, { type: AiItemType; items: { name: string; value: string }[] }> = {
+    '动物': { type: 'EMOJI', items: [{ name: '羊驼', value: '🦙' }, { name: '树懒', value: '🦥' }, { name: '水獭', value: '🦦' }, { name: '臭鼬', value: '🦨' }, { name: '獾', value: '🦡' }, { name: '火烈鸟', value: '🦩' }, { name: '孔雀', value: '🦚' }, { name: '鹦鹉', value: '🦜' }, { name: '天鹅', value: '🦢' }, { name: '刺猬', value: '🦔' }, { name: '骆驼', value: '🐫' }, { name: '犀牛', value: '🦏' }, { name: '大猩猩', value: '🦍' }, { name: '海豹', value: '🦭' }, { name: '渡渡鸟', value: '🦤' }, { name: '野牛', value: '🦬' }] },
+    '食物': { type: 'EMOJI', items: [{ name: '饺子', value: '🥟' }, { name: '月饼', value: '🥮' }, { name: '米饭', value: '🍚' }, { name: '面条', value: '🍜' }, { name: '饭团', value: '🍙' }, { name: '寿司', value: '🍣' }, { name: '披萨', value: '🍕' }, { name: '汉堡', value: '🍔' }, { name: '薯条', value: '🍟' }, { name: '蛋糕', value: '🍰' }, { name: '冰淇淋', value: '🍦' }, { name: '甜甜圈', value: '🍩' }, { name: '饼干', value: '🍪' }, { name: '蓝莓', value: '🫐' }, { name: '芒果', value: '🥭' }, { name: '牛油果', value: '🥑' }] },
+    '自然': { type: 'EMOJI', items: [{ name: '火山', value: '🌋' }, { name: '彩虹', value: '🌈' }, { name: '雪花', value: '❄️' }, { name: '闪电', value: '⚡' }, { name: '龙卷风', value: '🌪️' }, { name: '仙人掌', value: '🌵' }, { name: '向日葵', value: '🌻' }, { name: '郁金香', value: '🌷' }, { name: '枫叶', value: '🍁' }, { name: '蘑菇', value: '🍄' }, { name: '贝壳', value: '🐚' }, { name: '月亮', value: '🌙' }, { name: '星星', value: '⭐' }, { name: '海浪', value: '🌊' }, { name: '四叶草', value: '🍀' }, { name: '珊瑚', value: '🪸' }] },
+    '旅行地点': { type: 'EMOJI', items: [{ name: '自由女神像', value: '🗽' }, { name: '东京塔', value: '🗼' }, { name: '城堡', value: '🏰' }, { name: '寺庙', value: '🛕' }, { name: '摩天轮', value: '🎡' }, { name: '过山车', value: '🎢' }, { name: '帐篷', value: '⛺' }, { name: '小岛', value: '🏝️' }, { name: '富士山', value: '🗻' }, { name: '喷泉', value: '⛲' }, { name: '马戏团', value: '🎪' }, { name: '桥', value: '🌉' }, { name: '游乐园', value: '🎠' }, { name: '沙漠', value: '🏜️' }, { name: '国家公园', value: '🏞️' }, { name: '体育场', value: '🏟️' }] },
+    '运动': { type: 'EMOJI', items: [{ name: '足球', value: '⚽' }, { name: '篮球', value: '🏀' }, { name: '排球', value: '🏐' }, { name: '网球', value: '🎾' }, { name: '乒乓球', value: '🏓' }, { name: '羽毛球', value: '🏸' }, { name: '棒球', value: '⚾' }, { name: '滑雪', value: '⛷️' }, { name: '滑板', value: '🛹' }, { name: '游泳', value: '🏊' }, { name: '骑自行车', value: '🚴' }, { name: '冲浪', value: '🏄' }, { name: '攀岩', value: '🧗' }, { name: '举重', value: '🏋️' }, { name: '射箭', value: '🏹' }, { name: '冰球', value: '🏒' }] },
+    '物品': { type: 'EMOJI', items: [{ name: '雨伞', value: '☂️' }, { name: '钥匙', value: '🔑' }, { name: '剪刀', value: '✂️' }, { name: '放大镜', value: '🔍' }, { name: '手电筒', value: '🔦' }, { name: '闹钟', value: '⏰' }, { name: '气球', value: '🎈' }, { name: '礼物', value: '🎁' }, { name: '蜡烛', value: '🕯️' }, { name: '望远镜', value: '🔭' }, { name: '指南针', value: '🧭' }, { name: '风筝', value: '🪁' }, { name: '积木', value: '🧱' }, { name: '书本', value: '📖' }, { name: '铅笔', value: '✏️' }, { name: '拼图', value: '🧩' }] },
+    '服装': { type: 'EMOJI', items: [{ name: 'T恤', value: '👕' }, { name: '牛仔裤', value: '👖' }, { name: '连衣裙', value: '👗' }, { name: '围巾', value: '🧣' }, { name: '手套', value: '🧤' }, { name: '外套', value: '🧥' }, { name: '袜子', value: '🧦' }, { name: '帽子', value: '🧢' }, { name: '运动鞋', value: '👟' }, { name: '靴子', value: '👢' }, { name: '泳衣', value: '🩱' }, { name: '领带', value: '👔' }, { name: '和服', value: '👘' }, { name: '眼镜', value: '👓' }, { name: '书包', value: '🎒' }, { name: '皇冠', value: '👑' }] },
+    '形状': { type: 'SHAPE', items: [{ name: '圆形', value: '●' }, { name: '正方形', value: '■' }, { name: '三角形', value: '▲' }, { name: '菱形', value: '◆' }, { name: '五角星', value: '★' }, { name: '心形', value: '♥' }, { name: '六边形', value: '⬢' }, { name: '五边形', value: '⬟' }, { name: '椭圆', value: '⬮' }, { name: '十字', value: '✚' }, { name: '空心圆', value: '○' }, { name: '空心方块', value: '□' }, { name: '空心三角', value: '△' }, { name: '空心菱形', value: '◇' }, { name: '空心星', value: '☆' }, { name: '月牙', value: '☾' }] },
+    '符号': { type: 'SHAPE', items: [{ name: '音符', value: '♪' }, { name: '太阳', value: '☀' }, { name: '云朵', value: '☁' }, { name: '雪人', value: '☃' }, { name: '对勾', value: '✔' }, { name: '叉号', value: '✖' }, { name: '箭头', value: '➜' }, { name: '无穷', value: '∞' }, { name: '锚', value: '⚓' }, { name: '和平', value: '☮' }, { name: '阴阳', value: '☯' }, { name: '雪花', value: '❄' }, { name: '花朵', value: '✿' }, { name: '梅花', value: '♣' }, { name: '黑桃', value: '♠' }, { name: '方块', value: '♦' }] },
+    '颜色': { type: 'COLOR', items: [{ name: '樱花粉', value: '#f6c1d0' }, { name: '荔枝红', value: '#e0364d' }, { name: '南瓜橙', value: '#f28c28' }, { name: '香蕉黄', value: '#ffe66d' }, { name: '抹茶绿', value: '#a8c66c' }, { name: '竹青', value: '#789262' }, { name: '湖水绿', value: '#5bc0be' }, { name: '海洋蓝', value: '#1b6ca8' }, { name: '葡萄紫', value: '#6c3483' }, { name: '薰衣草紫', value: '#b57edc' }, { name: '巧克力色', value: '#7b3f00' }, { name: '奶油色', value: '#fff5d6' }] },
+};
+
+// The topics a parent can choose from when no online AI provider is configured.
+export const OFFLINE_TOPICS = Object.keys(OFFLINE_CATALOGUE);
+
+/**
+ * Creates a provider that needs no network or API key and draws from a bundled catalogue.
+ * It only knows the topics in OFFLINE_TOPICS and always returns the same items for the same request.
+ * Names of the catalogue items also serve as TEXT words, so every topic can be fetched as words.
+ * @returns The provider.
+ */
+export const createOfflineProvider = (): AiProvider => ({
+    generateResources: async (request) => {
+        const topic = request.topic.trim();
+        const entry = OFFLINE_CATALOGUE[topic];
+        if (!entry) {
+            throw new Error(`离线资源库中没有“${topic}”主题。可选主题：${OFFLINE_TOPICS.join('、')}。自定义主题需要在家长设置中选择在线 AI。`);
+        }
+        const items: ResourceItem[] = [];
+        if (request.types.includes(entry.type)) {
+            items.push(...entry.items.map(item => ({ name: item.name, type: entry.type, value: item.value })));
+        }
+        if (request.types.includes('TEXT')) {
+            items.push(...entry.items.map(item => ({ name: item.name, type: 'TEXT', value: item.name })));
+        }
+        if (items.length === 0) {
+            throw new Error(`离线资源库中的“${topic}”主题没有所选类型的资源。`);
+        }
+        return items.slice(0, request.count);
+    },
+});
@@ -0,0 +1,54 @@
+import { AiProvider, generateAndReview } from './aiProvider';
+import { AiRequestError, CompletePrompt, getErrorKindForStatus, toAiRequestError } from './aiRequestService';
+
+export const DEFAULT_OPENAI_BASE_URL = 'https://api.openai.com/v1';
+export const DEFAULT_OPENAI_MODEL = 'gpt-4o-mini';
+
+/**
+ * Creates a provider that generates resources through an OpenAI-compatible chat completions API.
+ * This also covers local model servers (e.g. Ollama or LM Studio) that offer the same API.
+ * @param baseUrl The API base URL, e.g. `http://localhost:11434/v1`.
+ * @param apiKey The API key. Local servers usually accept any value or none.
+ * @param model The model name.
+ * @returns The provider.
+ */
+export const createOpenAiCompatibleProvider = (baseUrl: string, apiKey: string, model: string): AiProvider => {
+    const endpoint = `${(baseUrl || DEFAULT_OPENAI_BASE_URL).replace(/\/+$/, '')}/chat/completions`;
+
+    const complete: CompletePrompt = async (prompt, signal) => {
+        const response = await fetch(endpoint, {
+            method: 'POST',
+            signal,
+            headers: {
+                'Content-Type': 'application/json',
+                ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+            },
+            body: JSON.stringify({
+                model: model || DEFAULT_OPENAI_MODEL,
+                messages: [{ role: 'user', content: prompt }],
+                temperature: 0.7,
+            }),
+        });
+        if (!response.ok) {
+            console.error(`OpenAI-compatible API responded with HTTP ${response.status}`);
+            throw new AiRequestError(getErrorKindForStatus(response.status));
+        }
+        const data = await response.json();
+        const content = data?.choices?.[0]?.message?.content;
+        if (typeof content !== 'string') {
+            throw new AiRequestError('malformed');
+        }
+        return content;
+    };
+
+    return {
+        generateResources: async (request, signal) => {
+            try {
+                return await generateAndReview(complete, request, signal);
+            } catch (error) {
+                console.error("Error fetching resources from the OpenAI-compatible API:", error);
+                throw toAiRequestError(error);
+            }
+        },
+    };
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { createParentPin, verifyParentPin, verifyRecoveryCode } from './parentPinService';
+
+describe('createParentPin', () => {
+    it('accepts the PIN and its recovery code only', async () => {
+        const { parentPin, recoveryCode } = await createParentPin('1234');
+
+        expect(recoveryCode).toMatch(/^[A-Z2-9]{4}-[A-Z2-9]{4}-[A-Z2-9]{4}$/);
+        expect(await verifyParentPin('1234', parentPin)).toBe(true);
+        expect(await verifyParentPin('4321', parentPin)).toBe(false);
+        expect(await verifyRecoveryCode(recoveryCode, parentPin)).toBe(true);
+        expect(await verifyRecoveryCode('1234', parentPin)).toBe(false);
+    });
+
+    it('accepts a recovery code typed without dashes and in lower case', async () => {
+        const { parentPin, recoveryCode } = await createParentPin('1234');
+        expect(await verifyRecoveryCode(recoveryCode.replace(/-/g, ' ').toLowerCase(), parentPin)).toBe(true);
+    });
+});
+
+describe('verifyRecoveryCode', () => {
+    it('rejects every code for a PIN set without a recovery code', async () => {
+        const { parentPin, recoveryCode } = await createParentPin('1234');
+        const { recoveryHash, ...legacyPin } = parentPin;
+
+        expect(recoveryHash).toBeDefined();
+        expect(await verifyRecoveryCode(recoveryCode, legacyPin)).toBe(false);
+        expect(await verifyRecoveryCode('', legacyPin)).toBe(false);
+    });
+});
@@ -0,0 +1,79 @@
+import { ParentPin } from '../types';
+
+export const PIN_MIN_LENGTH = 4;
+export const PIN_MAX_LENGTH = 6;
+
+// No 0/O or 1/I, so that a handwritten code can be read back. 32 letters, so every byte maps evenly.
+const RECOVERY_CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const RECOVERY_CODE_LENGTH = 12;
+const RECOVERY_CODE_GROUP = 4;
+
+const toHex = (buffer: ArrayBuffer | Uint8Array): string =>
+  Array.from(buffer instanceof Uint8Array ? buffer : new Uint8Array(buffer))
+    .map(byte => byte.toString(16).padStart(2, '0'))
+    .join('');
+
+const hashPin = async (pin: string, salt: string): Promise<string> => {
+  const data = new TextEncoder().encode(`${salt}:${pin}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return toHex(digest);
+};
+
+/**
+ * Checks that a PIN is 4-6 digits.
+ */
+export const isValidPin = (pin: string): boolean =>
+  new RegExp(`^\\d{${PIN_MIN_LENGTH},${PIN_MAX_LENGTH}}$`).test(pin);
+
+// Ignores case, spaces and dashes, which are easy to get wrong when typing the code back in.
+const normalizeRecoveryCode = (code: string): string => code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+const hashRecoveryCode = (code: string, salt: string): Promise<string> =>
+  hashPin(`recovery:${normalizeRecoveryCode(code)}`, salt);
+
+const createRecoveryCode = (): string => {
+  const letters = Array.from(crypto.getRandomValues(new Uint8Array(RECOVERY_CODE_LENGTH)))
+    .map(byte => RECOVERY_CODE_ALPHABET[byte % RECOVERY_CODE_ALPHABET.length]);
+  const groups: string[] = [];
+  for (let i = 0; i < letters.length; i += RECOVERY_CODE_GROUP) {
+    groups.push(letters.slice(i, i + RECOVERY_CODE_GROUP).join(''));
+  }
+  return groups.join('-');
+};
+
+/**
+ * Creates the stored form of a new PIN with a fresh random salt, together with a recovery code
+ * that resets the PIN when it is forgotten. Only the hash of the code is stored, so it has to be
+ * shown to the parent right away.
+ * @param pin The PIN the parent chose.
+ * @returns The salted hash to persist and the recovery code to show.
+ */
+export const createParentPin = async (pin: string): Promise<{ parentPin: ParentPin; recoveryCode: string }> => {
+  const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+  const recoveryCode = createRecoveryCode();
+  return {
+    parentPin: { salt, hash: await hashPin(pin, salt), recoveryHash: await hashRecoveryCode(recoveryCode, salt) },
+    recoveryCode,
+  };
+};
+
+/**
+ * Checks an entered PIN against the stored hash.
+ * @param pin The PIN that was entered.
+ * @param parentPin The stored salted hash.
+ * @returns Whether the PIN is correct.
+ */
+export const verifyParentPin = async (pin: string, parentPin: ParentPin): Promise<boolean> => {
+  return (await hashPin(pin, parentPin.salt)) === parentPin.hash;
+};
+
+/**
+ * Checks an entered recovery code against the stored hash.
+ * @param code The recovery code that was entered.
+ * @param parentPin The stored salted hash.
+ * @returns Whether the code is correct. Always false for PINs without a recovery code.
+ */
+export const verifyRecoveryCode = async (code: string, parentPin: ParentPin): Promise<boolean> => {
+  if (!parentPin.recoveryHash) return false;
+  return (await hashRecoveryCode(code, parentPin.salt)) === parentPin.recoveryHash;
+};
@@ -0,0 +1,26 @@
+import { v4 as uuidv4 } from 'uuid';
+import { PlayerProfile, ProfileData } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+
+export const PROFILE_AVATARS = ['🐱', '🐶', '🐼', '🦊', '🐰', '🐯', '🦁', '🐸', '🐵', '🐧', '🦄', '🐲', '🐙', '🦋', '🚀', '⚽'];
+
+export const DEFAULT_PROFILE_NAME = '玩家 1';
+
+/**
+ * Creates a new player profile with fresh progress.
+ * @param name The display name of the player.
+ * @param avatar The emoji shown next to the name.
+ * @param data Existing progress to start from, e.g. when migrating a single-player save.
+ * @returns The new profile.
+ */
+export const createProfile = (name: string, avatar: string, data: Partial<ProfileData> = {}): PlayerProfile => ({
+  id: uuidv4(),
+  name,
+  avatar,
+  createdAt: new Date().toISOString(),
+  settings: data.settings || DEFAULT_SETTINGS,
+  playerRewards: data.playerRewards || { stars: 0, gems: 0, trophies: 0, perfectScores: 0 },
+  unlockedAchievements: data.unlockedAchievements || {},
+  nLevelHistory: data.nLevelHistory || [],
+  sessionLog: data.sessionLog || [],
+});
@@ -0,0 +1,102 @@
+import { SessionLogEntry } from '../types';
+import { calculateAccuracy } from './adaptiveService';
+
+export type ProgressPeriod = 'day' | 'week';
+
+export interface PeriodSummary {
+    key: string; // YYYY-MM-DD of the day, or of the Monday starting the week
+    games: number;
+    bestScore: number;
+    averageScore: number;
+    averageAccuracy: number;
+    averageNLevel: number;
+}
+
+export interface GroupSummary {
+    key: string;
+    games: number;
+    averageScore: number;
+    averageAccuracy: number;
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/**
+ * Formats a date as YYYY-MM-DD in local time, so games are grouped by the player's calendar day.
+ */
+export const toDateKey = (date: Date): string =>
+    `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+const getPeriodKey = (timestamp: string, period: ProgressPeriod): string => {
+    const date = new Date(timestamp);
+    if (period === 'week') {
+        // Weeks start on Monday
+        const daysSinceMonday = (date.getDay() + 6) % 7;
+        date.setDate(date.getDate() - daysSinceMonday);
+    }
+    return toDateKey(date);
+};
+
+const average = (values: number[]): number =>
+    values.length === 0 ? 0 : Math.round((values.reduce((sum, value) => sum + value, 0) / values.length) * 10) / 10;
+
+const groupEntries = (log: SessionLogEntry[], getKey: (entry: SessionLogEntry) => string): Map<string, SessionLogEntry[]> => {
+    const groups = new Map<string, SessionLogEntry[]>();
+    log.forEach(entry => {
+        const key = getKey(entry);
+        groups.set(key, [...(groups.get(key) || []), entry]);
+    });
+    return groups;
+};
+
+/**
+ * Summarizes the session log per day or per week, oldest period first.
+ * @param log The session log.
+ * @param period Whether to group by day or by week.
+ * @returns One summary per period that has at least one game.
+ */
+export const summarizeByPeriod = (log: SessionLogEntry[], period: ProgressPeriod): PeriodSummary[] => {
+    const groups = groupEntries(log, entry => getPeriodKey(entry.timestamp, period));
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b))
+        .map(([key, entries]) => ({
+            key,
+            games: entries.length,
+            bestScore: Math.max(...entries.map(e => e.stats.score)),
+            averageScore: average(entries.map(e => e.stats.score)),
+            averageAccuracy: average(entries.map(e => calculateAccuracy(e.stats))),
+            averageNLevel: average(entries.map(e => e.settings.nLevel)),
+        }));
+};
+
+/**
+ * Summarizes the session log by an arbitrary attribute of the game, e.g. stimulus type or speed.
+ * @param log The session log.
+ * @param getKey Extracts the attribute to group by.
+ * @returns One summary per distinct attribute value, sorted by key.
+ */
+export const summarizeBy = (log: SessionLogEntry[], getKey: (entry: SessionLogEntry) => string): GroupSummary[] => {
+    const groups = groupEntries(log, getKey);
+    return Array.from(groups.entries())
+        .sort(([a], [b]) => a.localeCompare(b, undefined, { numeric: true }))
+        .map(([key, entries]) => ({
+            key,
+            games: entries.length,
+            averageScore: average(entries.map(e => e.stats.score)),
+            averageAccuracy: average(entries.map(e => calculateAccuracy(e.stats))),
+        }));
+};
+
+/**
+ * Counts the games played on each calendar day.
+ * @param log The session log.
+ * @returns A map from YYYY-MM-DD to the number of games played that day.
+ */
+export const countGamesPerDay = (log: SessionLogEntry[]): Map<string, number> => {
+    const counts = new Map<string, number>();
+    log.forEach(entry => {
+        const key = getPeriodKey(entry.timestamp, 'day');
+        counts.set(key, (counts.get(key) || 0) + 1);
+    });
+    return counts;
+};
@@ -0,0 +1,29 @@
+import { ReactionTimeStats } from '../types';
+
+const mean = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+const median = (values: number[]): number | null => {
+    if (values.length === 0) return null;
+    const sorted = [...values].sort((a, b) => a - b);
+    const middle = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0 ? (sorted[middle - 1] + sorted[middle]) / 2 : sorted[middle];
+};
+
+const round = (value: number | null): number | null => value === null ? null : Math.round(value);
+
+/**
+ * Summarizes the reaction times of a game. Means and medians are rounded to whole milliseconds
+ * and are null when there were no responses of that kind.
+ * @param hitReactionTimes Reaction times (ms) of match presses on match turns.
+ * @param falseAlarmReactionTimes Reaction times (ms) of match presses on non-match turns.
+ * @returns The mean and median reaction time for hits and false alarms.
+ */
+export const summarizeReactionTimes = (hitReactionTimes: number[], falseAlarmReactionTimes: number[]): ReactionTimeStats => ({
+    meanHitRT: round(mean(hitReactionTimes)),
+    medianHitRT: round(median(hitReactionTimes)),
+    meanFalseAlarmRT: round(mean(falseAlarmReactionTimes)),
+    medianFalseAlarmRT: round(median(falseAlarmReactionTimes)),
+});
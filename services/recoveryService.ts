@@ -0,0 +1,74 @@
+import { PlayerRewards, UnlockedAchievements } from '../types';
+import { AppState, createDefaultState } from './storageService';
+import { createProfile } from './profileService';
+import { isObject, isValidPlayerRewards, isValidUnlockedAchievements } from './validationService';
+
+// Whatever could be salvaged for one player from an unreadable save.
+export interface RecoveredProgress {
+    name: string;
+    avatar: string;
+    playerRewards?: PlayerRewards;
+    unlockedAchievements?: UnlockedAchievements;
+}
+
+const DEFAULT_AVATAR = '🙂';
+
+const recoveredName = (index: number) => `恢复的玩家 ${index + 1}`;
+
+// Both fields are flat objects, so they can be cut out of a truncated or damaged file.
+const extractFields = (raw: string, field: string): unknown[] => {
+    const pattern = new RegExp(`"${field}"\\s*:\\s*(\\{[^{}]*\\})`, 'g');
+    return Array.from(raw.matchAll(pattern)).map(match => {
+        try {
+            return JSON.parse(match[1]);
+        } catch {
+            return undefined;
+        }
+    });
+};
+
+const toRecovered = (source: any, index: number): RecoveredProgress => ({
+    name: typeof source?.name === 'string' && source.name ? source.name : recoveredName(index),
+    avatar: typeof source?.avatar === 'string' && source.avatar ? source.avatar : DEFAULT_AVATAR,
+    playerRewards: isValidPlayerRewards(source?.playerRewards) ? source.playerRewards : undefined,
+    unlockedAchievements: isValidUnlockedAchievements(source?.unlockedAchievements) ? source.unlockedAchievements : undefined,
+});
+
+/**
+ * Tries to salvage each player's rewards and achievements from an unreadable save.
+ * Works on saves of any version, and on damaged files that no longer parse as JSON.
+ * @param raw The raw save data.
+ * @returns The players with at least one recovered field.
+ */
+export const recoverProgress = (raw: string): RecoveredProgress[] => {
+    let recovered: RecoveredProgress[];
+    try {
+        const data = JSON.parse(raw);
+        const state = isObject(data) && isObject(data.state) ? data.state : data;
+        recovered = Array.isArray(state?.profiles)
+            ? state.profiles.map(toRecovered)
+            : [toRecovered(state, 0)];
+    } catch {
+        const rewards = extractFields(raw, 'playerRewards');
+        const achievements = extractFields(raw, 'unlockedAchievements');
+        recovered = Array.from({ length: Math.max(rewards.length, achievements.length) }, (_, i) =>
+            toRecovered({ playerRewards: rewards[i], unlockedAchievements: achievements[i] }, i)
+        );
+    }
+    return recovered.filter(p => p.playerRewards || p.unlockedAchievements);
+};
+
+/**
+ * Builds a fresh app state holding the recovered players' progress.
+ * @param recovered The salvaged progress.
+ * @returns A default state with one profile per recovered player.
+ */
+export const buildRecoveredState = (recovered: RecoveredProgress[]): AppState => {
+    const state = createDefaultState();
+    if (recovered.length === 0) return state;
+    const profiles = recovered.map(p => createProfile(p.name, p.avatar, {
+        playerRewards: p.playerRewards,
+        unlockedAchievements: p.unlockedAchievements,
+    }));
+    return { ...state, profiles, activeProfileId: profiles[0].id };
+};
@@ -0,0 +1,116 @@
+import { Deck, ResourceChanges, Stimulus, StimulusType } from '../types';
+import { INITIAL_RESOURCES, getBuiltInStimulusId } from '../constants';
+import { isImageDataUrl } from './imageService';
+
+const BUILT_IN_BY_ID = new Map(INITIAL_RESOURCES.map(resource => [resource.id, resource]));
+
+// A game needs at least two different stimuli to have both matches and non-matches.
+export const MIN_PLAYABLE_STIMULI = 2;
+
+export const isStimulusEnabled = (stimulus: Stimulus): boolean => stimulus.enabled !== false;
+
+/**
+ * Selects the stimuli a game can use.
+ * @param resources The full resource list.
+ * @param stimulusType The configured stimulus type; RANDOM allows every type.
+ * @param deck The selected deck, if any. It takes the place of the stimulus type.
+ * @returns The enabled stimuli of the deck, or else of the stimulus type.
+ */
+export const getPlayableStimuli = (resources: Stimulus[], stimulusType: StimulusType, deck?: Deck): Stimulus[] => {
+    if (deck) {
+        const ids = new Set(deck.stimulusIds);
+        return resources.filter(r => isStimulusEnabled(r) && ids.has(r.id));
+    }
+    return resources.filter(r => isStimulusEnabled(r) && (stimulusType === StimulusType.RANDOM || r.type === stimulusType));
+};
+
+/**
+ * Checks a stimulus entered by the user.
+ * @param draft The stimulus to check.
+ * @param resources The current resource list.
+ * @returns An error message, or null if the stimulus is valid.
+ */
+export const validateStimulus = (draft: Stimulus, resources: Stimulus[]): string | null => {
+    const value = draft.value.trim();
+    if (!value) return draft.type === StimulusType.IMAGE ? '请上传一张图片。' : '请输入内容。';
+    switch (draft.type) {
+        case StimulusType.COLOR:
+            if (!/^#[0-9a-f]{6}$/i.test(value)) return '颜色必须是 #RRGGBB 格式。';
+            break;
+        case StimulusType.NUMBER:
+            if (!/^\d{1,4}$/.test(value)) return '数字必须是 1-4 位整数。';
+            break;
+        case StimulusType.LETTER:
+            if (!/^[A-Za-z]$/.test(value)) return '字母必须是单个英文字母。';
+            break;
+        case StimulusType.TEXT:
+            if (value.length > 8) return '文字最多 8 个字。';
+            break;
+        case StimulusType.IMAGE:
+            if (!isImageDataUrl(value)) return '请上传一张图片。';
+            if (!draft.name?.trim()) return '请给图片起个名字。';
+            break;
+    }
+    const duplicate = resources.find(r => r.id !== draft.id && r.type === draft.type && r.value === value);
+    if (duplicate) return `已存在相同的资源${duplicate.name ? `「${duplicate.name}」` : ''}。`;
+    return null;
+};
+
+/**
+ * Computes the user's changes relative to the built-in catalogue.
+ * @param resources The full resource list in use.
+ * @returns The additions, edits and removals to persist.
+ */
+export const getResourceChanges = (resources: Stimulus[]): ResourceChanges => {
+    const presentIds = new Set(resources.map(r => r.id));
+    const added: Stimulus[] = [];
+    const edited: Stimulus[] = [];
+    resources.forEach(resource => {
+        const builtIn = BUILT_IN_BY_ID.get(resource.id);
+        if (!builtIn) {
+            added.push(resource);
+        } else if (builtIn.type !== resource.type || builtIn.value !== resource.value || builtIn.name !== resource.name
+            || isStimulusEnabled(builtIn) !== isStimulusEnabled(resource)) {
+            edited.push(resource);
+        }
+    });
+    return {
+        added,
+        edited,
+        removedIds: INITIAL_RESOURCES.filter(r => !presentIds.has(r.id)).map(r => r.id),
+    };
+};
+
+/**
+ * Rebuilds the full resource list from the built-in catalogue and the user's changes.
+ * @param changes The persisted changes.
+ * @returns The built-in stimuli (minus removals, with edits applied) followed by the additions.
+ */
+export const applyResourceChanges = (changes: ResourceChanges): Stimulus[] => {
+    const removedIds = new Set(changes.removedIds);
+    const editsById = new Map(changes.edited.map(r => [r.id, r]));
+    return [
+        ...INITIAL_RESOURCES.filter(r => !removedIds.has(r.id)).map(r => editsById.get(r.id) || r),
+        ...changes.added,
+    ];
+};
+
+/**
+ * Gives stimuli saved by older builds, whose built-in ids were random, their deterministic built-in id.
+ * Stimuli that aren't in the catalogue keep their id; duplicates of the same built-in are dropped.
+ * @param resources The resource list from an older save.
+ * @returns The list with built-in stimuli re-identified.
+ */
+export const matchBuiltInResources = (resources: Stimulus[]): Stimulus[] => {
+    const seenIds = new Set<string>();
+    return resources
+        .map(resource => {
+            const builtInId = getBuiltInStimulusId(resource.type, resource.value);
+            return BUILT_IN_BY_ID.has(builtInId) ? { ...resource, id: builtInId } : resource;
+        })
+        .filter(resource => {
+            if (seenIds.has(resource.id)) return false;
+            seenIds.add(resource.id);
+            return true;
+        });
+};
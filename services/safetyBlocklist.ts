@@ -0,0 +1,23 @@
+// Bundled child-safety blocklist for AI-generated resources. The model is asked to review its own
+// output, but this list is checked locally so that nothing listed here can slip through.
+
+// Emoji that are never shown to children. Compared without variation selectors.
+export const BLOCKED_EMOJI = [
+    '🔫', '🔪', '🗡', '⚔', '💣', '🧨', '🪓',
+    '💀', '☠', '👹', '👺', '👿', '😈', '🧟', '🩸', '⚰', '🪦',
+    '💉', '💊', '🚬', '🍺', '🍻', '🍷', '🍸', '🍹', '🥃', '🍾', '🍶', '🥂',
+    '🖕', '🍆', '🍑', '🔞', '🎰', '🤬', '🥀',
+];
+
+// Terms that must not appear in a resource name, in Chinese and English.
+// Chinese terms match anywhere in a name, so they are whole words rather than single characters:
+// 血, 杀 or 枪 alone would also block harmless names such as 血橙, 杀虫剂 or 水枪.
+// English terms only match as whole words, optionally plural.
+export const BLOCKED_NAME_TERMS = [
+    '手枪', '步枪', '机枪', '枪支', '开枪', '枪击', '匕首', '刺刀', '炸弹', '炸药', '武器',
+    '流血', '鲜血', '血腥', '杀人', '杀死', '杀手', '谋杀', '自杀', '屠杀', '死亡', '死人', '去死', '尸体', '骷髅', '僵尸', '恶魔', '魔鬼',
+    '棺材', '墓碑', '毒品', '吸毒', '针管', '香烟', '吸烟', '啤酒', '白酒', '红酒', '葡萄酒', '鸡尾酒', '酒精', '喝醉', '醉酒',
+    '赌博', '赌场', '赌钱', '色情', '裸体', '裸露', '暴力', '恐怖', '自残',
+    'gun', 'knife', 'knives', 'bomb', 'weapon', 'blood', 'kill', 'dead', 'skull', 'zombie', 'devil', 'drug',
+    'cigarette', 'beer', 'wine', 'alcohol', 'gamble', 'gambling', 'sex', 'nude', 'violence',
+];
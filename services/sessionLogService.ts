@@ -0,0 +1,38 @@
+import { v4 as uuidv4 } from 'uuid';
+import { GameStats, PlayerRewards, SessionLogEntry, TurnRecord } from '../types';
+
+// Oldest entries are dropped once the log grows past this, to keep saves within storage quota.
+export const MAX_SESSION_LOG_ENTRIES = 200;
+
+/**
+ * Creates a session log entry for a finished game.
+ * @param stats The final statistics of the game.
+ * @param history The turn-by-turn history of the game.
+ * @param rewardsEarned The rewards earned in this game, including conversions.
+ * @returns The new log entry.
+ */
+export const createSessionLogEntry = (
+  stats: GameStats,
+  history: TurnRecord[],
+  rewardsEarned: PlayerRewards
+): SessionLogEntry => ({
+  id: uuidv4(),
+  timestamp: new Date().toISOString(),
+  settings: stats.settings,
+  stats,
+  history,
+  rewardsEarned,
+});
+
+/**
+ * Appends an entry to the session log, dropping the oldest entries beyond the cap.
+ * @param log The current session log.
+ * @param entry The entry to append.
+ * @returns A new session log array.
+ */
+export const appendToSessionLog = (log: SessionLogEntry[], entry: SessionLogEntry): SessionLogEntry[] => {
+  const newLog = [...log, entry];
+  return newLog.length > MAX_SESSION_LOG_ENTRIES
+    ? newLog.slice(newLog.length - MAX_SESSION_LOG_ENTRIES)
+    : newLog;
+};
@@ -0,0 +1,67 @@
+import { SignalCounts, SignalDetectionStats } from '../types';
+
+export const EMPTY_SIGNAL_COUNTS: SignalCounts = { hits: 0, misses: 0, falseAlarms: 0, correctRejections: 0 };
+
+/**
+ * Inverse of the standard normal cumulative distribution (the z-score of a probability).
+ * Uses Acklam's rational approximation, which is accurate to about 1e-9.
+ * @param p A probability strictly between 0 and 1.
+ * @returns The z-score whose lower tail area is p.
+ */
+const inverseNormal = (p: number): number => {
+    const a = [-3.969683028665376e+01, 2.209460984245205e+02, -2.759285104469687e+02, 1.383577518672690e+02, -3.066479806614716e+01, 2.506628277459239e+00];
+    const b = [-5.447609879822406e+01, 1.615858368580409e+02, -1.556989798598866e+02, 6.680131188771972e+01, -1.328068155288572e+01];
+    const c = [-7.784894002430293e-03, -3.223964580411365e-01, -2.400758277161838e+00, -2.549732539343734e+00, 4.374664141464968e+00, 2.938163982698783e+00];
+    const d = [7.784695709041462e-03, 3.224671290700398e-01, 2.445134137142996e+00, 3.754408661907416e+00];
+    const pLow = 0.02425;
+
+    if (p < pLow) {
+        const q = Math.sqrt(-2 * Math.log(p));
+        return (((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    if (p > 1 - pLow) {
+        const q = Math.sqrt(-2 * Math.log(1 - p));
+        return -(((((c[0] * q + c[1]) * q + c[2]) * q + c[3]) * q + c[4]) * q + c[5]) /
+            ((((d[0] * q + d[1]) * q + d[2]) * q + d[3]) * q + 1);
+    }
+    const q = p - 0.5;
+    const r = q * q;
+    return (((((a[0] * r + a[1]) * r + a[2]) * r + a[3]) * r + a[4]) * r + a[5]) * q /
+        (((((b[0] * r + b[1]) * r + b[2]) * r + b[3]) * r + b[4]) * r + 1);
+};
+
+/**
+ * Adds two sets of signal counts, e.g. to pool the streams of a dual game.
+ */
+export const addSignalCounts = (a: SignalCounts, b: SignalCounts): SignalCounts => ({
+    hits: a.hits + b.hits,
+    misses: a.misses + b.misses,
+    falseAlarms: a.falseAlarms + b.falseAlarms,
+    correctRejections: a.correctRejections + b.correctRejections,
+});
+
+/**
+ * Calculates signal-detection metrics from raw response counts.
+ * The rates used for d′ and c get the log-linear correction (add 0.5 to each count and 1 to
+ * each total), so perfect or empty rows don't produce infinite z-scores in short games.
+ * The reported hit and false-alarm rates are the uncorrected ones.
+ * @param counts The hits, misses, false alarms and correct rejections of a game.
+ * @returns The counts together with hit rate, false-alarm rate, d′ and criterion c.
+ */
+export const calculateSignalDetection = (counts: SignalCounts): SignalDetectionStats => {
+    const { hits, misses, falseAlarms, correctRejections } = counts;
+    const signals = hits + misses;
+    const noise = falseAlarms + correctRejections;
+
+    const zHit = inverseNormal((hits + 0.5) / (signals + 1));
+    const zFalseAlarm = inverseNormal((falseAlarms + 0.5) / (noise + 1));
+
+    return {
+        ...counts,
+        hitRate: signals > 0 ? hits / signals : 0,
+        falseAlarmRate: noise > 0 ? falseAlarms / noise : 0,
+        dPrime: zHit - zFalseAlarm,
+        criterion: -(zHit + zFalseAlarm) / 2,
+    };
+};
@@ -0,0 +1,61 @@
+import { readFileSync } from 'node:fs';
+import { describe, expect, it } from 'vitest';
+import { GameSettings } from '../types';
+import { DEFAULT_SETTINGS } from '../constants';
+import { migrateState } from './storageService';
+import { validateAppState } from './validationService';
+
+// Save files as older builds wrote them, oldest first.
+const loadFixture = (name: string): any =>
+    JSON.parse(readFileSync(new URL(`./__fixtures__/saves/${name}`, import.meta.url), 'utf-8'));
+
+// The settings each fixture stores, per player in profile order.
+const getFixtureSettings = (fixture: any): Partial<GameSettings>[] => {
+    const state = fixture.version ? fixture.state : fixture;
+    return Array.isArray(state.profiles) ? state.profiles.map((p: any) => p.settings) : [state.settings];
+};
+
+const FIXTURES = [
+    { file: 'legacy-1.0.0.json', customResource: '小明' },
+    { file: 'v1.1.0.json', customResource: '#123456' },
+    { file: 'v1.4.0.json', customResource: null },
+    { file: 'v2.1.0.json', customResource: '苹果树' },
+];
+
+describe('migrateState', () => {
+    it.each(FIXTURES)('migrates $file to a valid current state', ({ file }) => {
+        const state = migrateState(loadFixture(file));
+        expect(validateAppState(state)).toEqual([]);
+    });
+
+    it.each(FIXTURES)('fills the settings missing from $file with defaults', ({ file }) => {
+        const fixture = loadFixture(file);
+        const state = migrateState(fixture);
+        const savedSettings = getFixtureSettings(fixture);
+
+        expect(state.profiles).toHaveLength(savedSettings.length);
+        state.profiles.forEach((profile, i) => {
+            (Object.keys(DEFAULT_SETTINGS) as (keyof GameSettings)[]).forEach(key => {
+                const expected = key in savedSettings[i] ? savedSettings[i][key] : DEFAULT_SETTINGS[key];
+                expect(profile.settings[key], key).toEqual(expected);
+            });
+        });
+    });
+
+    it.each(FIXTURES)('keeps the progress and custom resources of $file', ({ file, customResource }) => {
+        const fixture = loadFixture(file);
+        const state = migrateState(fixture);
+        const saved = fixture.version ? fixture.state : fixture;
+        const savedRewards = Array.isArray(saved.profiles) ? saved.profiles.map((p: any) => p.playerRewards) : [saved.playerRewards];
+
+        expect(state.profiles.map(p => p.playerRewards)).toEqual(savedRewards);
+        expect(state.profiles.map(p => p.id)).toContain(state.activeProfileId);
+        if (customResource) {
+            expect(state.resources.some(r => r.value === customResource)).toBe(true);
+        }
+    });
+
+    it('rejects a version without a migration path', () => {
+        expect(() => migrateState({ version: '0.9.0', state: {} })).toThrow();
+    });
+});
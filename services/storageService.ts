@@ -1,90 +1,433 @@
-import { GameSettings, Stimulus, PlayerRewards, UnlockedAchievements } from '../types';
+import { Stimulus, PlayerProfile, ParentPin, ResourceChanges, Deck } from '../types';
 import { DEFAULT_SETTINGS, INITIAL_RESOURCES } from '../constants';
+import { createProfile, DEFAULT_PROFILE_NAME } from './profileService';
+import { isIndexedDbAvailable, readAppState, writeAppState } from './indexedDbService';
+import { applyResourceChanges, getResourceChanges, matchBuiltInResources } from './resourceService';
+import { validateAppState } from './validationService';
+import { notifyStateSaved } from './syncService';
 
-const STORAGE_KEY = 'n-back-game-data';
-const CURRENT_VERSION = '1.1.0'; // Versioning to handle future data structure changes
+export const STORAGE_KEY = 'n-back-game-data'; // localStorage key used before IndexedDB and as a fallback
+export const CURRENT_VERSION = '2.4.0'; // Versioning to handle future data structure changes
+// Unreadable saves are moved to `<prefix><timestamp>` in localStorage instead of being deleted.
+export const QUARANTINE_KEY_PREFIX = 'n-back-game-data-quarantine-';
+
+export type VersionStatus = 'legacy' | 'supported' | 'newer' | 'unknown';
 
 // This interface represents the data structure of the entire app state
 export interface AppState {
-    settings: GameSettings;
-    resources: Stimulus[];
-    playerRewards: PlayerRewards;
-    unlockedAchievements: UnlockedAchievements;
+    profiles: PlayerProfile[];
+    activeProfileId: string | null;
+    resources: Stimulus[]; // Shared by all profiles on this device
+    decks: Deck[]; // Shared by all profiles on this device
     isSoundOn: boolean;
+    parentPin: ParentPin | null; // Device-wide, protects the parent area
+}
+
+// The saved form of AppState: resources are stored as changes to the built-in catalogue.
+export interface StoredAppState extends Omit<AppState, 'resources'> {
+    resourceChanges: ResourceChanges;
 }
 
-// This interface represents the object that is actually stored in localStorage
-interface VersionedAppState {
+// This interface represents the versioned object written to localStorage and export files
+export interface VersionedAppState {
     version: string;
-    state: AppState;
+    revision?: number; // Only in localStorage, see saveState
+    state: StoredAppState;
+}
+
+// A save that couldn't be loaded, kept so it can be downloaded or partly recovered.
+export interface QuarantinedSave {
+    key: string | null; // The localStorage key holding the copy, or null if it couldn't be stored
+    raw: string;
+    createdAt: string;
 }
 
+export interface LoadResult {
+    state: AppState | undefined; // Undefined when nothing usable was saved
+    quarantined: QuarantinedSave | null;
+}
+
+/**
+ * Creates the state of a fresh install, with a single default profile.
+ * @returns The default app state.
+ */
+export const createDefaultState = (): AppState => {
+    const defaultProfile = createProfile(DEFAULT_PROFILE_NAME, '🙂');
+    return {
+        profiles: [defaultProfile],
+        activeProfileId: defaultProfile.id,
+        resources: INITIAL_RESOURCES,
+        decks: [],
+        isSoundOn: true,
+        parentPin: null,
+    };
+};
+
+/**
+ * Converts the app state to the form that is saved.
+ * @param state The app state.
+ * @returns The state with its resources reduced to the user's changes.
+ */
+export const toStoredState = ({ resources, ...rest }: AppState): StoredAppState => ({
+    ...rest,
+    resourceChanges: getResourceChanges(resources),
+});
+
+// Un-versioned saves from the first release are treated as this version.
+const LEGACY_VERSION = '1.0.0';
+
+interface Migration {
+    from: string;
+    to: string;
+    migrate: (state: any) => any;
+}
+
+// Ordered migrations, oldest first. Each step takes the state shape of `from` and returns the shape of `to`.
+// GameSettings defaults are filled after every step, so steps only need to handle structural changes.
+const MIGRATIONS: Migration[] = [
+    {
+        // The first release stored its fields at the top level, without a wrapper.
+        from: '1.0.0', to: '1.1.0',
+        migrate: (legacy) => ({
+            settings: legacy.settings,
+            resources: legacy.resources || INITIAL_RESOURCES,
+            playerRewards: legacy.playerRewards || { stars: 0, gems: 0, trophies: 0, perfectScores: 0 },
+            unlockedAchievements: legacy.unlockedAchievements || {},
+            isSoundOn: legacy.isSoundOn ?? true,
+        }),
+    },
+    {
+        // New game mode / adaptive settings and the nLevel change history.
+        from: '1.1.0', to: '1.2.0',
+        migrate: (state) => ({ ...state, nLevelHistory: state.nLevelHistory || [] }),
+    },
+    {
+        // New lure rate setting.
+        from: '1.2.0', to: '1.3.0',
+        migrate: (state) => state,
+    },
+    {
+        // Persistent log of finished games.
+        from: '1.3.0', to: '1.4.0',
+        migrate: (state) => ({ ...state, sessionLog: state.sessionLog || [] }),
+    },
+    {
+        // The single player's progress moves into a default profile.
+        from: '1.4.0', to: '2.0.0',
+        migrate: (state) => {
+            const defaultProfile = createProfile(DEFAULT_PROFILE_NAME, '🙂', {
+                settings: state.settings,
+                playerRewards: state.playerRewards,
+                unlockedAchievements: state.unlockedAchievements,
+                nLevelHistory: state.nLevelHistory,
+                sessionLog: state.sessionLog,
+            });
+            return {
+                profiles: [defaultProfile],
+                activeProfileId: defaultProfile.id,
+                resources: state.resources,
+                isSoundOn: state.isSoundOn,
+            };
+        },
+    },
+    {
+        // Optional parent PIN.
+        from: '2.0.0', to: '2.1.0',
+        migrate: (state) => ({ ...state, parentPin: state.parentPin ?? null }),
+    },
+    {
+        // Built-in stimuli get deterministic ids and only the user's changes are stored.
+        // Older builds had no way to remove a built-in, so a missing one was simply not shipped yet.
+        from: '2.1.0', to: '2.2.0',
+        migrate: ({ resources, ...rest }) => {
+            const changes = getResourceChanges(matchBuiltInResources(resources || []));
+            return { ...rest, resourceChanges: { ...changes, removedIds: [] } };
+        },
+    },
+    {
+        // Named stimulus decks, selectable in the settings instead of a stimulus type.
+        from: '2.2.0', to: '2.3.0',
+        migrate: (state) => ({ ...state, decks: state.decks || [] }),
+    },
+    {
+        // New color difficulty setting.
+        from: '2.3.0', to: '2.4.0',
+        migrate: (state) => state,
+    },
+];
+
+// Every version a released build has written, oldest first. Used to vet imported files.
+const KNOWN_VERSIONS = [...MIGRATIONS.map(m => m.from), CURRENT_VERSION];
+
+// Fills any GameSettings field missing from a save with its default, in either the
+// single-player (before 2.0.0) or the profile-based shape.
+const fillSettingsDefaults = (state: any): any => {
+    if (Array.isArray(state.profiles)) {
+        return {
+            ...state,
+            profiles: state.profiles.map((profile: any) => ({
+                ...profile,
+                settings: { ...DEFAULT_SETTINGS, ...profile.settings },
+            })),
+        };
+    }
+    return { ...state, settings: { ...DEFAULT_SETTINGS, ...state.settings } };
+};
+
 /**
  * Migrates loaded data to the current application state structure.
  * This is crucial for handling changes in the data format between app versions.
- * @param loadedData The raw data parsed from localStorage.
+ * The registered migrations run in order from the data's version up to CURRENT_VERSION.
+ * Data that is already current only has its settings defaults filled and its resources rebuilt.
+ * Throws if the data's version has no migration path.
+ * @param loadedData The raw versioned data, as read from storage or an imported file.
  * @returns An AppState object conforming to the latest structure.
  */
-const migrateState = (loadedData: any): AppState => {
-    // Case 1: The data is from the old, un-versioned format.
-    if (!loadedData.version) {
-        console.log("Migrating legacy (un-versioned) data structure...");
-        const migratedState: AppState = {
-            settings: loadedData.settings || DEFAULT_SETTINGS,
-            resources: loadedData.resources || INITIAL_RESOURCES,
-            playerRewards: loadedData.playerRewards || { stars: 0, gems: 0, trophies: 0, perfectScores: 0 },
-            unlockedAchievements: loadedData.unlockedAchievements || {},
-            isSoundOn: loadedData.isSoundOn ?? true,
-        };
-        return migratedState;
+export const migrateState = (loadedData: any): AppState => {
+    let version: string = loadedData.version || LEGACY_VERSION;
+    let state = fillSettingsDefaults(loadedData.version ? loadedData.state : loadedData);
+
+    if (version !== CURRENT_VERSION && !MIGRATIONS.some(m => m.from === version)) {
+        throw new Error(`No migration path from version ${version} to ${CURRENT_VERSION}`);
+    }
+
+    for (const migration of MIGRATIONS) {
+        if (migration.from !== version) continue;
+        console.log(`Migrating saved data from ${migration.from} to ${migration.to}...`);
+        state = fillSettingsDefaults(migration.migrate(state));
+        version = migration.to;
     }
-    
-    // Case 2: The data is versioned but needs migration steps.
-    // Example: if (loadedData.version === '1.0.0') { ...migrate to 1.1.0... }
-    // For now, we assume any versioned data is compatible.
-    return loadedData.state;
+
+    const { resourceChanges, ...rest } = state as StoredAppState;
+    return { ...rest, resources: applyResourceChanges(resourceChanges) };
 };
 
-export const saveState = (state: AppState) => {
+const compareVersions = (a: string, b: string): number => {
+    const partsA = a.split('.').map(Number);
+    const partsB = b.split('.').map(Number);
+    for (let i = 0; i < Math.max(partsA.length, partsB.length); i++) {
+        const diff = (partsA[i] || 0) - (partsB[i] || 0);
+        if (diff !== 0) return diff;
+    }
+    return 0;
+};
+
+/**
+ * Classifies the version of a saved or imported file.
+ * @param version The `version` field of the file, if any.
+ * @returns 'legacy' for un-versioned data, 'supported' for versions migrateState can handle,
+ * 'newer' for files written by a newer build, and 'unknown' for anything else.
+ */
+export const getVersionStatus = (version: unknown): VersionStatus => {
+    if (version === undefined) return 'legacy';
+    if (typeof version !== 'string' || !/^\d+\.\d+\.\d+$/.test(version)) return 'unknown';
+    if (KNOWN_VERSIONS.includes(version)) return 'supported';
+    return compareVersions(version, CURRENT_VERSION) > 0 ? 'newer' : 'unknown';
+};
+
+export type SaveResult = 'saved' | 'stale' | 'failed';
+
+// The last state written successfully, so that later saves only rewrite what changed.
+let lastSaved: { state: AppState; stored: StoredAppState } | null = null;
+// The revision of the saved data this tab last read or wrote. Every write increments it,
+// and a write is refused if another tab has written since.
+let knownRevision = 0;
+// Saves run one after another so a slow write can't land after a newer one.
+let saveQueue: Promise<unknown> = Promise.resolve();
+// Falls back to localStorage when IndexedDB can't be opened (e.g. some private browsing modes).
+let useLocalStorage = !isIndexedDbAvailable();
+
+const saveToLocalStorage = (state: StoredAppState, revision: number, expectedRevision: number | null): boolean => {
+    if (expectedRevision !== null) {
+        const existing = JSON.parse(localStorage.getItem(STORAGE_KEY) || 'null');
+        if ((existing?.revision ?? 0) !== expectedRevision) return false;
+    }
+    const versionedState: VersionedAppState = {
+        version: CURRENT_VERSION,
+        revision,
+        state: state,
+    };
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(versionedState));
+    return true;
+};
+
+const isProfileChanged = (a: PlayerProfile, b: PlayerProfile): boolean =>
+    a.id !== b.id || a.name !== b.name || a.avatar !== b.avatar
+    || a.settings !== b.settings || a.playerRewards !== b.playerRewards
+    || a.unlockedAchievements !== b.unlockedAchievements
+    || a.nLevelHistory !== b.nLevelHistory || a.sessionLog !== b.sessionLog;
+
+// Compares by reference, as state updates always create new objects.
+const isStateChanged = (previous: StoredAppState, next: StoredAppState): boolean =>
+    previous.activeProfileId !== next.activeProfileId
+    || previous.isSoundOn !== next.isSoundOn
+    || previous.parentPin !== next.parentPin
+    || previous.resourceChanges !== next.resourceChanges
+    || previous.decks !== next.decks
+    || previous.profiles.length !== next.profiles.length
+    || next.profiles.some((profile, i) => isProfileChanged(previous.profiles[i], profile));
+
+/**
+ * Saves the app state, writing only the parts that changed since the last save.
+ * Other tabs are notified after every successful write.
+ * @param state The state to save.
+ * @param options `force` writes even if another tab saved since this tab last read, e.g. for imports.
+ * @returns 'saved', 'stale' if another tab saved in the meantime and nothing was written, or 'failed'.
+ */
+export const saveState = (state: AppState, { force = false }: { force?: boolean } = {}): Promise<SaveResult> => {
+    const write = saveQueue.then(async (): Promise<SaveResult> => {
+        try {
+            // Diffing against the catalogue is only needed when the resource list changed.
+            const { resources, ...rest } = state;
+            const stored: StoredAppState = {
+                ...rest,
+                resourceChanges: lastSaved && lastSaved.state.resources === resources
+                    ? lastSaved.stored.resourceChanges
+                    : getResourceChanges(resources),
+            };
+            // Skipping no-op writes also keeps tabs from echoing each other's saves forever.
+            if (!force && lastSaved && !isStateChanged(lastSaved.stored, stored)) {
+                return 'saved';
+            }
+            const revision = knownRevision + 1;
+            const expectedRevision = force ? null : knownRevision;
+            const isWritten = useLocalStorage
+                ? saveToLocalStorage(stored, revision, expectedRevision)
+                : await writeAppState(CURRENT_VERSION, stored, force ? null : lastSaved?.stored || null, revision, expectedRevision);
+            if (!isWritten) {
+                return 'stale';
+            }
+            knownRevision = revision;
+            lastSaved = { state, stored };
+            notifyStateSaved();
+            return 'saved';
+        } catch (error) {
+            console.warn("Could not save game state:", error);
+            // The transaction may have been partly applied; rewrite everything next time.
+            lastSaved = null;
+            return 'failed';
+        }
+    });
+    saveQueue = write;
+    return write;
+};
+
+/**
+ * Copies unreadable save data to a timestamped quarantine key.
+ * @param raw The raw save data.
+ * @returns The quarantined save. Its key is null if localStorage refused the copy.
+ */
+export const quarantineData = (raw: string): QuarantinedSave => {
+    const createdAt = new Date().toISOString();
+    const key = `${QUARANTINE_KEY_PREFIX}${createdAt}`;
     try {
-        const versionedState: VersionedAppState = {
-            version: CURRENT_VERSION,
-            state: state,
-        };
-        const serializedState = JSON.stringify(versionedState);
-        localStorage.setItem(STORAGE_KEY, serializedState);
+        localStorage.setItem(key, raw);
+        return { key, raw, createdAt };
     } catch (error) {
-        console.warn("Could not save game state to local storage:", error);
+        console.warn("Could not quarantine unreadable save data:", error);
+        return { key: null, raw, createdAt };
+    }
+};
+
+// Migrates and checks raw saved data, and records it as the base for the next save. Throws if it can't be used.
+const parseSavedData = (data: any): AppState => {
+    const state = migrateState(data);
+    const errors = validateAppState(state);
+    if (errors.length > 0) {
+        throw new Error(`Invalid saved state: ${errors.join(', ')}`);
     }
+    knownRevision = data.revision ?? 0;
+    // Anything migrated is written in full on the next save. Otherwise the base shares the
+    // loaded objects, so that saving the unchanged state writes nothing.
+    const { resources, ...rest } = state;
+    lastSaved = data.version === CURRENT_VERSION
+        ? { state, stored: { ...rest, resourceChanges: data.state.resourceChanges } }
+        : null;
+    return state;
 };
 
-export const loadState = (): AppState | undefined => {
+// Reads the pre-IndexedDB save from localStorage, migrating it if needed.
+const loadFromLocalStorage = (): LoadResult => {
+    let serializedState: string | null = null;
     try {
-        const serializedState = localStorage.getItem(STORAGE_KEY);
+        // Reading itself throws if site data is blocked, e.g. with a SecurityError.
+        serializedState = localStorage.getItem(STORAGE_KEY);
         if (serializedState === null) {
-            return undefined;
+            return { state: undefined, quarantined: null };
         }
-        
-        const parsedData = JSON.parse(serializedState);
-        
-        // If the data is current, no migration needed.
-        if (parsedData.version === CURRENT_VERSION) {
-            return parsedData.state;
+        // Old or un-versioned data is migrated step by step.
+        return { state: parseSavedData(JSON.parse(serializedState)), quarantined: null };
+    } catch (error) {
+        console.warn("Could not load/migrate game state from local storage:", error);
+        if (serializedState === null) {
+            return { state: undefined, quarantined: null };
         }
+        // Keep the unreadable data under its own key so it isn't lost or loaded again.
+        const quarantined = quarantineData(serializedState);
+        if (quarantined.key) localStorage.removeItem(STORAGE_KEY);
+        return { state: undefined, quarantined };
+    }
+};
 
-        // If the version is old or missing, migrate it.
-        console.log(`Old version detected. Migrating from ${parsedData.version || 'unversioned'} to ${CURRENT_VERSION}.`);
-        const migrated = migrateState(parsedData);
-        
-        // Save the migrated state immediately to prevent re-migration on next load.
-        saveState(migrated);
-        
-        return migrated;
+/**
+ * Loads the app state from IndexedDB. On first run, data saved by older builds in
+ * localStorage is moved into IndexedDB and the old key is removed.
+ * Data that can't be read or migrated is quarantined rather than deleted.
+ * @returns The loaded state, if any, and the quarantined save if loading failed.
+ */
+export const loadState = async (): Promise<LoadResult> => {
+    if (!useLocalStorage) {
+        let stored: Awaited<ReturnType<typeof readAppState>>;
+        try {
+            stored = await readAppState();
+        } catch (error) {
+            console.warn("Could not open IndexedDB, falling back to local storage:", error);
+            useLocalStorage = true;
+        }
+        if (stored) {
+            try {
+                return { state: parseSavedData(stored), quarantined: null };
+            } catch (error) {
+                console.warn("Could not migrate saved game state:", error);
+                // The database is left as is; the next save overwrites it in full.
+                return { state: undefined, quarantined: quarantineData(JSON.stringify(stored)) };
+            }
+        }
+    }
 
-    } catch (error) {
-        console.warn("Could not load/migrate game state from local storage:", error);
-        // If loading or migration fails, clear the corrupt data to prevent future errors.
-        localStorage.removeItem(STORAGE_KEY);
-        return undefined;
+    const result = loadFromLocalStorage();
+    const { state } = result;
+    if (state && !useLocalStorage) {
+        console.log("Moving saved data from local storage to IndexedDB...");
+        // Only drop the old copy once it is safely stored in IndexedDB.
+        if (await saveState(state, { force: true }) === 'saved') {
+            localStorage.removeItem(STORAGE_KEY);
+        }
+    } else if (state && useLocalStorage && !lastSaved) {
+        // Save the migrated state immediately to prevent re-migration on next load.
+        await saveState(state, { force: true });
     }
+    return result;
+};
+
+/**
+ * Reads the saved state again, e.g. after another tab saved it.
+ * @returns The latest saved state, or undefined if it couldn't be read.
+ */
+export const reloadState = (): Promise<AppState | undefined> => {
+    const read = saveQueue.then(async () => {
+        try {
+            if (useLocalStorage) {
+                const serializedState = localStorage.getItem(STORAGE_KEY);
+                return serializedState === null ? undefined : parseSavedData(JSON.parse(serializedState));
+            }
+            const stored = await readAppState();
+            return stored ? parseSavedData(stored) : undefined;
+        } catch (error) {
+            console.warn("Could not reload game state:", error);
+            return undefined;
+        }
+    });
+    saveQueue = read;
+    return read;
 };
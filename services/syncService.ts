@@ -0,0 +1,144 @@
+// Coordinates several tabs of the app: tells other tabs when the saved state changed,
+// and makes sure only one tab runs a game at a time.
+import { NLevelChange, PlayerProfile, PlayerRewards } from '../types';
+import type { AppState } from './storageService';
+import { MAX_SESSION_LOG_ENTRIES } from './sessionLogService';
+
+const CHANNEL_NAME = 'n-back-trainer-sync';
+const GAME_LOCK_NAME = 'n-back-trainer-game';
+
+interface SyncMessage {
+    type: 'state-saved';
+}
+
+// Messages are never delivered back to the channel object that posted them.
+const channel = typeof BroadcastChannel !== 'undefined' ? new BroadcastChannel(CHANNEL_NAME) : null;
+
+/**
+ * Tells the other tabs that this tab just saved the app state.
+ */
+export const notifyStateSaved = () => {
+    const message: SyncMessage = { type: 'state-saved' };
+    channel?.postMessage(message);
+};
+
+/**
+ * Subscribes to saves made by other tabs.
+ * @param listener Called whenever another tab saved the app state.
+ * @returns A function that removes the listener.
+ */
+export const onStateSavedElsewhere = (listener: () => void): (() => void) => {
+    if (!channel) return () => {};
+    const handleMessage = (event: MessageEvent<SyncMessage>) => {
+        if (event.data?.type === 'state-saved') listener();
+    };
+    channel.addEventListener('message', handleMessage);
+    return () => channel.removeEventListener('message', handleMessage);
+};
+
+/**
+ * Claims the right to run a game. The lock is released automatically if the tab closes.
+ * @returns A function that releases the lock, or null if a game is running in another tab.
+ */
+export const acquireGameLock = (): Promise<(() => void) | null> => {
+    if (typeof navigator === 'undefined' || !navigator.locks) {
+        return Promise.resolve(() => {});
+    }
+    return new Promise(resolve => {
+        navigator.locks.request(GAME_LOCK_NAME, { ifAvailable: true }, lock => {
+            if (!lock) {
+                resolve(null);
+                return;
+            }
+            // The lock is held until the returned promise settles.
+            return new Promise<void>(release => resolve(() => release()));
+        });
+    });
+};
+
+// Applies this tab's changes to a list (additions, edits and removals since `base`) on top of `latest`.
+// Items removed in `latest` stay removed, even if this tab edited them.
+const rebaseList = <T,>(base: T[], mine: T[], latest: T[], getKey: (item: T) => string): T[] => {
+    if (mine === base) return latest;
+    const baseByKey = new Map(base.map(item => [getKey(item), item]));
+    const mineByKey = new Map(mine.map(item => [getKey(item), item]));
+    const rebased = latest
+        .filter(item => !baseByKey.has(getKey(item)) || mineByKey.has(getKey(item)))
+        .map(item => {
+            const key = getKey(item);
+            const mineItem = mineByKey.get(key);
+            return mineItem && baseByKey.has(key) && mineItem !== baseByKey.get(key) ? mineItem : item;
+        });
+    const latestKeys = new Set(latest.map(getKey));
+    const additions = mine.filter(item => !baseByKey.has(getKey(item)) && !latestKeys.has(getKey(item)));
+    return [...rebased, ...additions];
+};
+
+// Applies this tab's changed and removed keys on top of `latest`.
+const rebaseFields = <T extends object,>(base: T, mine: T, latest: T): T => {
+    if (mine === base) return latest;
+    const rebased = { ...latest } as Record<string, unknown>;
+    const baseRecord = base as unknown as Record<string, unknown>;
+    const mineRecord = mine as unknown as Record<string, unknown>;
+    Object.keys(baseRecord).forEach(key => {
+        if (!(key in mineRecord)) delete rebased[key];
+    });
+    Object.keys(mineRecord).forEach(key => {
+        if (mineRecord[key] !== baseRecord[key]) rebased[key] = mineRecord[key];
+    });
+    return rebased as unknown as T;
+};
+
+// Rewards are counters: this tab's gains and spending are added to the latest totals.
+const rebaseRewards = (base: PlayerRewards, mine: PlayerRewards, latest: PlayerRewards): PlayerRewards => {
+    if (mine === base) return latest;
+    const rebase = (key: keyof PlayerRewards) => Math.max(0, latest[key] + mine[key] - base[key]);
+    return { stars: rebase('stars'), gems: rebase('gems'), trophies: rebase('trophies'), perfectScores: rebase('perfectScores') };
+};
+
+const getNLevelChangeKey = (change: NLevelChange) => `${change.date}|${change.from}|${change.to}`;
+
+const rebaseProfile = (base: PlayerProfile, mine: PlayerProfile, latest: PlayerProfile): PlayerProfile => ({
+    ...latest,
+    name: mine.name !== base.name ? mine.name : latest.name,
+    avatar: mine.avatar !== base.avatar ? mine.avatar : latest.avatar,
+    settings: rebaseFields(base.settings, mine.settings, latest.settings),
+    playerRewards: rebaseRewards(base.playerRewards, mine.playerRewards, latest.playerRewards),
+    unlockedAchievements: rebaseFields(base.unlockedAchievements, mine.unlockedAchievements, latest.unlockedAchievements),
+    nLevelHistory: rebaseList(base.nLevelHistory, mine.nLevelHistory, latest.nLevelHistory, getNLevelChangeKey),
+    sessionLog: rebaseList(base.sessionLog, mine.sessionLog, latest.sessionLog, entry => entry.id).slice(-MAX_SESSION_LOG_ENTRIES),
+});
+
+/**
+ * Re-applies this tab's unsaved changes on top of state another tab saved in the meantime.
+ * Only what this tab changed since `base` is taken over; everything else comes from `latest`. Deletions and
+ * clears made by the other tab win over this tab's older data, and rewards add up this tab's gains and spending.
+ * @param base The saved state this tab's changes started from.
+ * @param mine This tab's current state.
+ * @param latest The state saved by the other tab.
+ * @returns The state to adopt and save.
+ */
+export const rebaseState = (base: AppState, mine: AppState, latest: AppState): AppState => {
+    const baseProfiles = new Map(base.profiles.map(p => [p.id, p]));
+    const latestProfiles = new Map(latest.profiles.map(p => [p.id, p]));
+    const profiles = rebaseList(base.profiles, mine.profiles, latest.profiles, p => p.id).map(profile => {
+        const baseProfile = baseProfiles.get(profile.id);
+        const latestProfile = latestProfiles.get(profile.id);
+        // Profiles changed by both tabs are merged field by field.
+        return baseProfile && latestProfile && profile !== latestProfile && profile !== baseProfile
+            ? rebaseProfile(baseProfile, profile, latestProfile)
+            : profile;
+    });
+    // The saved active player is only the one the app opens with; each tab keeps playing as its own player.
+    const activeProfileId = mine.activeProfileId !== base.activeProfileId && profiles.some(p => p.id === mine.activeProfileId)
+        ? mine.activeProfileId
+        : latest.activeProfileId;
+    return {
+        profiles,
+        activeProfileId: profiles.some(p => p.id === activeProfileId) ? activeProfileId : profiles[0]?.id ?? null,
+        resources: rebaseList(base.resources, mine.resources, latest.resources, r => r.id),
+        decks: rebaseList(base.decks, mine.decks, latest.decks, d => d.id),
+        isSoundOn: mine.isSoundOn !== base.isSoundOn ? mine.isSoundOn : latest.isSoundOn,
+        parentPin: mine.parentPin !== base.parentPin ? mine.parentPin : latest.parentPin,
+    };
+};
@@ -0,0 +1,87 @@
+import { PlayerRewards, StimulusType, UnlockedAchievements } from '../types';
+
+const REWARD_KEYS: (keyof PlayerRewards)[] = ['stars', 'gems', 'trophies', 'perfectScores'];
+// Every type a stored stimulus can have; RANDOM is only a setting.
+export const RESOURCE_TYPES = Object.values(StimulusType).filter(type => type !== StimulusType.RANDOM);
+
+export const isObject = (value: unknown): value is Record<string, any> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonNegativeNumber = (value: unknown): boolean =>
+    typeof value === 'number' && Number.isFinite(value) && value >= 0;
+
+/**
+ * Checks that a value is a complete PlayerRewards record.
+ * @param value The value to check.
+ * @returns True if every reward count is a non-negative number.
+ */
+export const isValidPlayerRewards = (value: unknown): value is PlayerRewards =>
+    isObject(value) && REWARD_KEYS.every(key => isNonNegativeNumber(value[key]));
+
+/**
+ * Checks that a value is an UnlockedAchievements record.
+ * @param value The value to check.
+ * @returns True if it maps achievement ids to date strings.
+ */
+export const isValidUnlockedAchievements = (value: unknown): value is UnlockedAchievements =>
+    isObject(value) && Object.values(value).every(date => typeof date === 'string');
+
+/**
+ * Checks that a migrated state has the shape of the current AppState.
+ * @param state The state to check.
+ * @returns A list of problems, empty when the state is valid.
+ */
+export const validateAppState = (state: unknown): string[] => {
+    const errors: string[] = [];
+    if (!isObject(state)) return ['数据不是一个对象'];
+
+    if (!Array.isArray(state.profiles) || state.profiles.length === 0) {
+        errors.push('缺少玩家数据');
+    } else {
+        state.profiles.forEach((profile: unknown, index: number) => {
+            const label = `玩家 #${index + 1}`;
+            if (!isObject(profile)) {
+                errors.push(`${label} 格式错误`);
+                return;
+            }
+            if (typeof profile.id !== 'string' || typeof profile.name !== 'string' || typeof profile.avatar !== 'string') {
+                errors.push(`${label} 缺少 id、名字或头像`);
+            }
+            if (!isObject(profile.settings) || typeof profile.settings.nLevel !== 'number' || typeof profile.settings.gameLength !== 'number' || typeof profile.settings.speed !== 'number') {
+                errors.push(`${label} 的设置无效`);
+            }
+            if (!isValidPlayerRewards(profile.playerRewards)) {
+                errors.push(`${label} 的奖励无效`);
+            }
+            if (!isValidUnlockedAchievements(profile.unlockedAchievements)) {
+                errors.push(`${label} 的成就无效`);
+            }
+            if (!Array.isArray(profile.nLevelHistory) || !Array.isArray(profile.sessionLog)) {
+                errors.push(`${label} 的历史记录无效`);
+            }
+        });
+    }
+
+    if (!Array.isArray(state.resources)) {
+        errors.push('缺少资源列表');
+    } else {
+        const invalidCount = state.resources.filter((r: unknown) =>
+            !isObject(r) || typeof r.id !== 'string' || typeof r.value !== 'string' || !RESOURCE_TYPES.includes(r.type)
+        ).length;
+        if (invalidCount > 0) errors.push(`${invalidCount} 个资源格式错误`);
+    }
+
+    if (!Array.isArray(state.decks)) {
+        errors.push('缺少卡组列表');
+    } else {
+        const invalidCount = state.decks.filter((d: unknown) =>
+            !isObject(d) || typeof d.id !== 'string' || typeof d.name !== 'string'
+            || !Array.isArray(d.stimulusIds) || !d.stimulusIds.every((id: unknown) => typeof id === 'string')
+        ).length;
+        if (invalidCount > 0) errors.push(`${invalidCount} 个卡组格式错误`);
+    }
+
+    if (typeof state.isSoundOn !== 'boolean') errors.push('声音设置无效');
+
+    return errors;
+};
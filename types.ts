@@ -5,6 +5,8 @@ export enum Screen {
   GAME,
   RESOURCES,
   ACHIEVEMENTS,
+  PROGRESS,
+  PROFILES,
 }
 
 export enum StimulusType {
@@ -14,22 +16,69 @@ export enum StimulusType {
   NUMBER = 'NUMBER',
   TEXT = 'TEXT',
   LETTER = 'LETTER',
+  IMAGE = 'IMAGE',
   RANDOM = 'RANDOM',
 }
 
+export enum GameMode {
+  SINGLE = 'SINGLE',
+  DUAL = 'DUAL', // Position + identity streams scored independently
+}
+
+// How alike the colors of a COLOR game are: 'easy' picks well-separated colors, 'hard' deliberately close ones.
+export type ColorDifficulty = 'easy' | 'medium' | 'hard';
+
+// The independent match streams a turn can be judged on. Single mode only uses 'identity'.
+export type MatchStream = 'identity' | 'position';
+
+// 'target' turns match the n-back item, 'lure' turns repeat the n-1 or n+1 item, 'filler' turns are neither.
+export type TrialType = 'target' | 'lure' | 'filler';
+
+// Where an approved AI-generated stimulus came from, so a batch can be found and removed again.
+export interface StimulusSource {
+  origin: 'ai';
+  category: string; // The AI category it was fetched for, e.g. "动物"
+  fetchedAt: string; // ISO date string, shared by every item of the same fetch
+}
+
 export interface Stimulus {
   id: string;
   type: StimulusType;
-  value: string; // URL for image, emoji char, hex code, shape name, number, text
+  value: string; // Compressed data URL for image, emoji char, hex code, shape name, number, text
   name?: string;
+  enabled?: boolean; // False excludes the stimulus from games; missing means enabled
+  source?: StimulusSource; // Missing for built-in and hand-made stimuli
+}
+
+// The user's changes on top of the built-in stimulus catalogue. Only these are saved,
+// so new built-in stimuli in later releases reach existing players.
+export interface ResourceChanges {
+  added: Stimulus[];
+  edited: Stimulus[]; // Built-in stimuli whose value, name or enabled flag the user changed, with their built-in id
+  removedIds: string[]; // Ids of built-in stimuli the user removed
+}
+
+// A named set of stimuli of any types, e.g. "Farm animals" or this week's spelling words.
+export interface Deck {
+  id: string;
+  name: string;
+  stimulusIds: string[]; // Ids into the resource list; ids of removed stimuli are ignored
+  createdAt: string; // ISO date string
 }
 
 export interface GameSettings {
   level: number;
   nLevel: number; // The 'n' in n-back
   stimulusType: StimulusType;
+  deckId: string | null; // Play only this deck's stimuli instead of stimulusType
+  colorDifficulty: ColorDifficulty; // Only applies when every stimulus of the game is a color
   gameLength: number; // Number of turns
   speed: number; // ms per turn
+  mode: GameMode;
+  adaptiveNLevel: boolean; // Adjust nLevel automatically after each game
+  adaptiveUpThreshold: number; // Accuracy % at or above which nLevel goes up
+  adaptiveDownThreshold: number; // Accuracy % below which nLevel goes down
+  lureRate: number; // % of non-match turns that repeat the n-1 or n+1 item instead
 }
 
 export type AchievementType = 'score' | 'streak' | 'levelComplete' | 'precision' | 'action' | 'generic';
@@ -41,16 +90,81 @@ export interface Achievement {
   emoji: string;
   type: AchievementType;
   goal: number | ((stats: GameStats) => boolean); // e.g., score to reach, streak length, or a custom function
+  stream?: MatchStream; // For streak achievements: only count this stream instead of the best one
 }
 
 export type UnlockedAchievements = Record<string, string>; // key: achievementId, value: ISO date string
 
+export interface SignalCounts {
+    hits: number; // Match turns answered as a match
+    misses: number; // Match turns answered as non-match, or left to time out
+    falseAlarms: number; // Non-match turns answered as a match
+    correctRejections: number; // Non-match turns answered as non-match, or left to time out
+}
+
+export interface SignalDetectionStats extends SignalCounts {
+    hitRate: number;
+    falseAlarmRate: number;
+    dPrime: number; // Sensitivity: how well matches are told apart from non-matches
+    criterion: number; // Bias c: > 0 is cautious (too few presses), < 0 is liberal (guessing)
+}
+
+// Reaction times in ms, null when there were no responses of that kind
+export interface ReactionTimeStats {
+    meanHitRT: number | null;
+    medianHitRT: number | null;
+    meanFalseAlarmRT: number | null;
+    medianFalseAlarmRT: number | null;
+}
+
+export interface StreamStats {
+    maxStreak: number;
+    incorrectPresses: number;
+    lureFalseAlarms: number; // Match presses on lure turns
+    signalDetection: SignalDetectionStats;
+}
+
 export interface GameStats {
     score: number;
     settings: GameSettings;
-    maxStreak: number;
-    incorrectPresses: number;
+    maxStreak: number; // Best streak across all streams
+    incorrectPresses: number; // Total across all streams
+    lureFalseAlarms: number; // Total across all streams
+    signalDetection: SignalDetectionStats; // Pooled across all streams
+    reactionTimes: ReactionTimeStats; // Pooled across all streams
     gameCompleted: boolean;
+    minColorDistance?: number; // Smallest CIEDE2000 difference between two colors shown; only for all-color games
+    streams: Partial<Record<MatchStream, StreamStats>>;
+}
+
+export type TurnResult = 'correct' | 'incorrect' | 'neutral';
+
+export interface TurnRecord {
+    turn: number;
+    score: number;
+    result: TurnResult; // Combined result of all streams for this turn
+    streamResults?: Partial<Record<MatchStream, TurnResult>>;
+    trialType?: TrialType; // Combined trial type of all streams for this turn
+    streamTrialTypes?: Partial<Record<MatchStream, TrialType>>;
+    reactionTime?: number; // ms from stimulus onset to the first response of the turn
+    streamReactionTimes?: Partial<Record<MatchStream, number>>;
+}
+
+// One finished game in the persistent session log
+export interface SessionLogEntry {
+  id: string;
+  timestamp: string; // ISO date string
+  settings: GameSettings;
+  stats: GameStats;
+  history: TurnRecord[];
+  rewardsEarned: PlayerRewards;
+}
+
+export interface NLevelChange {
+  date: string; // ISO date string
+  from: number;
+  to: number;
+  accuracy: number; // Accuracy % of the game that triggered the change
 }
 
 export interface PlayerRewards {
@@ -58,4 +172,27 @@ export interface PlayerRewards {
   gems: number;
   trophies: number;
   perfectScores: number;
+}
+
+// Salted SHA-256 hash of the parent/teacher PIN. The PIN itself is never stored.
+export interface ParentPin {
+  hash: string; // hex
+  salt: string; // hex
+  recoveryHash?: string; // hex, of the recovery code shown when the PIN was set. Missing for PINs set before recovery codes existed
+}
+
+// Everything that belongs to one player rather than to the device
+export interface ProfileData {
+  settings: GameSettings;
+  playerRewards: PlayerRewards;
+  unlockedAchievements: UnlockedAchievements;
+  nLevelHistory: NLevelChange[];
+  sessionLog: SessionLogEntry[];
+}
+
+export interface PlayerProfile extends ProfileData {
+  id: string;
+  name: string;
+  avatar: string; // Emoji
+  createdAt: string; // ISO date string
 }
\ No newline at end of file